@@ -0,0 +1,176 @@
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import App from "./App";
+import { I18nProvider } from "./i18n";
+import { MockHotspot, startMockHotspot } from "./test/mockHotspot";
+
+/**
+ * FLOWS: The portal end to end against the mock OpenWISP and Chilli, the
+ * same ones `npm run mock` serves.
+ */
+const SEED_USER = "+27821234567";
+const SEED_PASSWORD = "mock-pass-2024";
+// Bridge retries and the Chilli round trips add up on a slow machine
+const WAIT = { timeout: 10000 };
+
+let hotspot: MockHotspot;
+
+beforeEach(async () => {
+  hotspot = await startMockHotspot();
+});
+
+afterEach(async () => {
+  await hotspot.close();
+});
+
+const renderPortal = () =>
+  render(
+    <I18nProvider>
+      <App />
+    </I18nProvider>,
+  );
+
+const input = (name: string) => {
+  const element = document.querySelector<HTMLInputElement>(
+    `input[name="${name}"]`,
+  );
+  if (!element) throw new Error(`No input named ${name}`);
+  return element;
+};
+
+const type = (name: string, value: string) => {
+  fireEvent.change(input(name), { target: { value } });
+  fireEvent.blur(input(name));
+};
+
+const signIn = (username: string, password: string) => {
+  type("username", username);
+  type("password", password);
+  fireEvent.click(screen.getByRole("button", { name: "Sign In & Connect" }));
+};
+
+describe("App", { timeout: 30000 }, () => {
+  it("registers, verifies the SMS code, shows usage and connects", async () => {
+    renderPortal();
+    fireEvent.click(screen.getByRole("button", { name: "New Account" }));
+
+    // The catalogue arrives through the direct bridge once the others fail
+    await screen.findByText("300 MB · Daily", undefined, WAIT);
+    type("first_name", "Thandi");
+    type("last_name", "Nkosi");
+    type("username", "082 555 0101");
+    type("password1", "Mango-Harbour-77");
+    type("password2", "Mango-Harbour-77");
+    fireEvent.click(screen.getByRole("button", { name: "Sign Up" }));
+
+    // The resend countdown starts once the SMS has gone out
+    await screen.findByText(/Resend code in/, undefined, WAIT);
+    expect(hotspot.state.users.get("+27825550101")?.verified).toBe(false);
+    fireEvent.paste(screen.getByLabelText("Digit 1"), {
+      clipboardData: { getData: () => "123456" },
+    });
+
+    await screen.findByText("Account Active", undefined, WAIT);
+    expect(hotspot.state.users.get("+27825550101")?.verified).toBe(true);
+    expect(screen.getByText(/^Daily (Time|Data) Remaining$/)).toBeTruthy();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "CONNECT TO INTERNET" }),
+    );
+    await screen.findByText("You're Online", undefined, WAIT);
+    // The mock Chilli only opens a session for a valid CHAP response
+    expect(hotspot.state.session?.username).toBe("+27825550101");
+  });
+
+  it("stops at the used-up screen when the quota is exhausted", async () => {
+    hotspot.state.quota = "exhausted";
+    renderPortal();
+    signIn("082 123 4567", SEED_PASSWORD);
+
+    await screen.findByText("Daily Time Used Up", undefined, WAIT);
+    expect(screen.getByRole("button", { name: "TOP UP" })).toBeTruthy();
+    expect(
+      screen.queryByRole("button", { name: "CONNECT TO INTERNET" }),
+    ).toBeNull();
+    expect(hotspot.requests.some((url) => url.includes("/json/logon"))).toBe(
+      false,
+    );
+    expect(hotspot.state.session).toBeNull();
+  });
+
+  it("returns from the top-up catalogue to the screen it came from", async () => {
+    hotspot.state.quota = "exhausted";
+    renderPortal();
+    signIn(SEED_USER, SEED_PASSWORD);
+
+    await screen.findByText("Daily Time Used Up", undefined, WAIT);
+    fireEvent.click(screen.getByRole("button", { name: "TOP UP" }));
+    await screen.findByText("Top Up Data");
+    fireEvent.click(screen.getByRole("button", { name: "Back" }));
+    await screen.findByText("Daily Time Used Up");
+  });
+
+  it("lets an account without counters connect straight away", async () => {
+    hotspot.state.quota = "unlimited";
+    renderPortal();
+    signIn(SEED_USER, SEED_PASSWORD);
+
+    await screen.findByText("Account Active", undefined, WAIT);
+    expect(screen.queryByText(/Remaining$/)).toBeNull();
+    fireEvent.click(screen.getByRole("button", { name: "Buy More Data" }));
+    await screen.findByText("Top Up Data");
+    fireEvent.click(screen.getByRole("button", { name: "Back" }));
+    await screen.findByText("Account Active");
+    expect(
+      screen.getByRole("button", { name: "CONNECT TO INTERNET" }),
+    ).toBeTruthy();
+  });
+
+  it("checks the reset code with the server before a new password", async () => {
+    renderPortal();
+    fireEvent.click(screen.getByRole("button", { name: "Forgot Password?" }));
+    type("phone_number", "082 123 4567");
+    fireEvent.click(screen.getByRole("button", { name: "Send Reset Code" }));
+
+    await screen.findByText(/Resend code in/, undefined, WAIT);
+    fireEvent.paste(screen.getByLabelText("Digit 1"), {
+      clipboardData: { getData: () => "654321" },
+    });
+    await screen.findByText("Invalid code.", undefined, WAIT);
+    expect(screen.queryByText("Choose a new password.")).toBeNull();
+
+    fireEvent.paste(screen.getByLabelText("Digit 1"), {
+      clipboardData: { getData: () => "123456" },
+    });
+    await screen.findByText("Choose a new password.", undefined, WAIT);
+    type("new_password1", "Mango-Harbour-77");
+    type("new_password2", "Mango-Harbour-77");
+    fireEvent.click(screen.getByRole("button", { name: "Set New Password" }));
+
+    await screen.findByText(/Password updated/, undefined, WAIT);
+    expect(hotspot.state.users.get(SEED_USER)?.password).toBe(
+      "Mango-Harbour-77",
+    );
+  });
+
+  it("explains what happened when every bridge fails", async () => {
+    hotspot.setOffline(true);
+    renderPortal();
+    signIn(SEED_USER, SEED_PASSWORD);
+
+    // The password only goes through the public proxy if the user agrees
+    await screen.findByRole("alertdialog", undefined, WAIT);
+    fireEvent.click(
+      screen.getByRole("button", { name: "Send through the proxy anyway" }),
+    );
+
+    await screen.findByText(/All access paths blocked/, undefined, WAIT);
+    expect(screen.getByText("Sign In")).toBeTruthy();
+    expect(
+      hotspot.requests.some((url) =>
+        url.startsWith("https://api.codetabs.com/"),
+      ),
+    ).toBe(true);
+  });
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import {
   User,
   Mail,
@@ -33,33 +33,115 @@ import {
   ExternalLink,
 } from "lucide-react";
 import Input from "./components/Input";
-import { RegistrationPayload, UsageResponse } from "./types";
-import { DEFAULT_PLAN_UUID } from "./constants";
+import OtpInput from "./components/OtpInput";
+import UsageDashboard from "./components/UsageDashboard";
+import LanguageSwitcher from "./components/LanguageSwitcher";
+import PasswordStrength from "./components/PasswordStrength";
+import UntrustedBridgePrompt from "./components/UntrustedBridgePrompt";
+import SupportLog from "./components/SupportLog";
+import {
+  ChilliStatusResponse,
+  HotspotContext,
+  PasswordResetGrant,
+  PaymentIntent,
+  Plan,
+  PlanPricing,
+  RegistrationPayload,
+  Step,
+  TokenResponse,
+  UsageResponse,
+  VerificationMethod,
+  UsageSummary,
+} from "./types";
+import {
+  CHILLI_POLL_MS,
+  HIJACK_HELP_URL,
+  OTP_RESEND_COOLDOWN_S,
+  OTP_MAX_ATTEMPTS,
+  OTP_LENGTH,
+  PAYMENT_POLL_MS,
+} from "./constants";
 import {
   registerUser,
   requestOtp,
   verifyOtp,
+  validateToken,
+  resendVerificationEmail,
+  requestPasswordReset,
+  verifyPasswordResetCode,
+  confirmPasswordReset,
   loginUser,
   getUsage,
-  BRIDGES,
-  lastBridgeLogs,
+  setBridgeConsentHandler,
 } from "./services/api";
-
-type Step =
-  | "REGISTRATION"
-  | "OTP_VERIFY"
-  | "LOGIN"
-  | "USAGE_INFO"
-  | "SUCCESS"
-  | "BUY_DATA";
-
-interface BridgeStatus {
-  name: string;
-  status: "checking" | "ok" | "blocked" | "intercepted";
-  latency: number;
-}
+import { getBridges, recordBridgeResult } from "./services/transport";
+import {
+  ProbeResult,
+  hostTargets,
+  runDetection,
+  VERDICT_GUIDANCE,
+  VERDICT_LABELS,
+} from "./services/detector";
+import {
+  ApiError,
+  ApiErrorKind,
+  AuthError,
+  BridgeExhaustedError,
+  CancelledError,
+  NetworkError,
+  ThrottleError,
+  UntrustedBridgeError,
+  ValidationError,
+  retryAfterSeconds,
+} from "./services/errors";
+import { saveSession, loadSession, clearSession } from "./services/session";
+import { logger } from "./services/logger";
+import { buildLogonFields } from "./services/uam";
+import {
+  parseHotspotContext,
+  resolveUserUrl,
+  chilliBaseUrl,
+} from "./services/hotspot";
+import {
+  getChilliStatus,
+  chilliLogon,
+  chilliLogoff,
+  totalOctets,
+} from "./services/chilli";
+import {
+  fetchPlanCatalogue,
+  allPricings,
+  planDataCap,
+  resolveDefaultPricing,
+} from "./services/plans";
+import { emailFieldFor, getVenueConfig } from "./services/config";
+import { walledGardenFor } from "./services/walledGarden";
+import { summarizeUsage, stepForUsage, describeQuota } from "./services/usage";
+import {
+  getPaymentProvider,
+  parsePaymentCallback,
+  clearPaymentCallback,
+  buildPaymentReturnUrl,
+} from "./services/payments";
+import {
+  formatBytes,
+  formatDuration,
+  formatPrice,
+  formatTimeSpan,
+} from "./utils/format";
+import { loginUsername, normalizePhone } from "./utils/phone";
+import {
+  passwordAttributes,
+  passwordStrength,
+  validateRegistration,
+} from "./utils/validation";
+import { useI18n } from "./i18n";
 
 const App: React.FC = () => {
+  // Loaded once in index.tsx before the first render
+  const venue = getVenueConfig();
+  const emailField = emailFieldFor(venue);
+  const { t, locale, language } = useI18n();
   const [step, setStep] = useState<Step>("LOGIN");
   const [formData, setFormData] = useState<RegistrationPayload>({
     username: "",
@@ -69,83 +151,93 @@ const App: React.FC = () => {
     first_name: "",
     last_name: "",
     phone_number: "",
-    method: "mobile_phone",
-    plan_pricing: DEFAULT_PLAN_UUID,
+    method: venue.verificationMethod,
+    plan_pricing: resolveDefaultPricing(),
   });
 
   const [loginData, setLoginData] = useState({ username: "", password: "" });
-  const [usageData, setUsageData] = useState<{
-    remainingMB: string;
-    percent: number;
-    hasData: boolean;
-  } | null>(null);
+  const [usageData, setUsageData] = useState<UsageSummary | null>(null);
   const [otpCode, setOtpCode] = useState("");
+  const [otpError, setOtpError] = useState("");
+  const [otpAttempts, setOtpAttempts] = useState(0);
+  // Pricing chosen on the sign-up form, settled once the account is verified
+  const [signupPricing, setSignupPricing] = useState("");
+  const [resendIn, setResendIn] = useState(0);
+  const [plans, setPlans] = useState<Plan[] | null>(null);
+  const [plansError, setPlansError] = useState("");
+  const [selectedPricing, setSelectedPricing] = useState<PlanPricing | null>(
+    null,
+  );
+  const [paymentIntent, setPaymentIntent] = useState<PaymentIntent | null>(
+    null,
+  );
+  const [resetData, setResetData] = useState({
+    phone_number: "",
+    code: "",
+    new_password1: "",
+    new_password2: "",
+  });
+  // Issued once the server has accepted the reset code
+  const [resetGrant, setResetGrant] = useState<PasswordResetGrant | null>(null);
   const [authToken, setAuthToken] = useState("");
+  const [radiusToken, setRadiusToken] = useState("");
+  const [isRestoring, setIsRestoring] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
+  const [noticeMessage, setNoticeMessage] = useState("");
+  const [errorKind, setErrorKind] = useState<ApiErrorKind | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // Registration fields the user has left at least once
+  const [touched, setTouched] = useState<Set<string>>(new Set());
   const [showHelper, setShowHelper] = useState(true);
   const [showLogs, setShowLogs] = useState(false);
+  // The sign-in or sign-up request in flight, so the user can give up on it
+  const pendingRequest = useRef<AbortController | null>(null);
+  // Set once the user picks a plan, so a catalogue reload keeps their pick
+  const planChosen = useRef(false);
+  // Open while a sensitive request waits on the user's go-ahead
+  const [bridgeConsent, setBridgeConsent] = useState<{
+    bridges: string[];
+    resolve: (agreed: boolean) => void;
+  } | null>(null);
 
-  const [diagnostics, setDiagnostics] = useState<BridgeStatus[]>(
-    BRIDGES.map((b) => ({ name: b.name, status: "checking", latency: 0 })),
-  );
+  // Null until the first probe round finishes
+  const [diagnostics, setDiagnostics] = useState<ProbeResult[] | null>(null);
 
-  const [uamParams, setUamParams] = useState({
-    uamip: "192.168.182.1",
-    uamport: "3990",
-    challenge: "",
-  });
+  const [hotspot] = useState<HotspotContext>(() => parseHotspotContext());
+  const [chilliStatus, setChilliStatus] = useState<ChilliStatusResponse | null>(
+    null,
+  );
 
   /**
-   * DIAGNOSTICS: Optimized for HTTPS -> HTTP Hijack detection
+   * DIAGNOSTICS: Probes every bridge and names what is wrong with it
    */
   const runDiagnostics = useCallback(async () => {
-    const tests = BRIDGES.map(async (bridge) => {
-      const start = Date.now();
-      try {
-        const target = "https://device.onetel.co.za/favicon.ico";
-        const url = bridge.proxy
-          ? `${bridge.proxy}${encodeURIComponent(target)}`
-          : target;
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 4000);
-
-        const res = await fetch(url, {
-          signal: controller.signal,
-          cache: "no-cache",
-        });
-        clearTimeout(timeoutId);
-
-        if (
-          res.status === 200 &&
-          res.headers.get("content-type")?.includes("text/html")
-        ) {
-          return {
-            name: bridge.name,
-            status: "intercepted" as const,
-            latency: Date.now() - start,
-          };
-        }
-        return {
-          name: bridge.name,
-          status: "ok" as const,
-          latency: Date.now() - start,
-        };
-      } catch (e: any) {
-        // Since we are on HTTPS, a 'Failed to fetch' usually means
-        // the router hijacked the request to an HTTP page.
-        return {
-          name: bridge.name,
-          status: "intercepted" as const,
-          latency: 0,
-        };
+    const results = await runDetection(getBridges(), {
+      walledGarden: hotspot.res !== "success" && hotspot.res !== "already",
+      allowedHosts: walledGardenFor(venue),
+      hosts: hostTargets(venue.apiHost, hotspot),
+    });
+    results.forEach((r) => {
+      if (r.scope === "bridge") {
+        recordBridgeResult(r.id, r.verdict === "healthy", r.latency);
       }
+      logger.log(
+        r.verdict === "healthy" ? "debug" : "warn",
+        "diagnostics",
+        `${r.name}: ${r.verdict} (${r.detail})`,
+        { latency: r.latency },
+      );
     });
-
-    const results = await Promise.all(tests);
     setDiagnostics(results);
-  }, []);
+  }, [hotspot, venue]);
+
+  // One line of advice per distinct problem, however many bridges share it
+  const diagnosticHints = [
+    ...new Set(
+      (diagnostics ?? []).flatMap((d) => VERDICT_GUIDANCE[d.verdict] ?? []),
+    ),
+  ];
 
   /**
    * AUTH FLOW: Refresh Usage Data
@@ -156,203 +248,1406 @@ const App: React.FC = () => {
       const usageRes = await getUsage(token);
       const usage: UsageResponse = await usageRes.json();
 
-      if (usage.checks?.length > 0) {
-        const check = usage.checks[0];
-        const remainingBytes = check.value - check.result;
-        const remainingMB = (remainingBytes / (1024 * 1024)).toFixed(2);
-        const percent = Math.max(
-          0,
-          Math.min(100, (remainingBytes / check.value) * 100),
-        );
-        setUsageData({
-          remainingMB,
-          percent,
-          hasData: remainingBytes > 1024 * 10,
-        });
-        setStep("USAGE_INFO");
-      } else {
-        setStep("SUCCESS");
+      const summary = usage.checks?.length > 0 ? summarizeUsage(usage) : null;
+      setUsageData(summary);
+      setStep(stepForUsage(summary));
+    } catch (err) {
+      if (err instanceof AuthError) {
+        signOut(t("session.expired"));
+        return;
       }
+      // Keep whatever we last knew; an unknown balance is allowed to connect
+      setStep(stepForUsage(usageData));
+    }
+  };
+
+  /**
+   * SESSION: Persist sign-ins so portal reloads land back on usage
+   */
+  const startSession = (data: TokenResponse, username: string) => {
+    const session = saveSession({
+      token: data.key,
+      username,
+      radiusToken: data.radius_user_token || "",
+    });
+    setAuthToken(session.token);
+    setRadiusToken(session.radiusToken);
+    return session.token;
+  };
+
+  const signOut = (notice = t("session.signedOut")) => {
+    clearSession();
+    setAuthToken("");
+    setRadiusToken("");
+    setUsageData(null);
+    setSignupPricing("");
+    setLoginData({ username: "", password: "" });
+    setNoticeMessage(notice);
+    setStep("LOGIN");
+  };
+
+  // Requests ask before credentials go through a third-party bridge
+  useEffect(() => {
+    setBridgeConsentHandler(
+      (bridges) =>
+        new Promise((resolve) => setBridgeConsent({ bridges, resolve })),
+    );
+    return () => setBridgeConsentHandler(null);
+  }, []);
+
+  // Chilli's redirect parameters, for whoever reads the support log
+  useEffect(() => {
+    logger.info("hotspot", `Opened with res=${hotspot.res}`, { ...hotspot });
+  }, [hotspot]);
+
+  const answerBridgeConsent = (agreed: boolean) => {
+    bridgeConsent?.resolve(agreed);
+    setBridgeConsent(null);
+  };
+
+  useEffect(() => {
+    if (hotspot.res === "success" || hotspot.res === "already") return;
+    const session = loadSession();
+    if (!session) return;
+
+    setAuthToken(session.token);
+    setRadiusToken(session.radiusToken);
+    setLoginData({ username: session.username, password: "" });
+
+    // Coming back from a hosted checkout: resume watching that payment
+    const payment = parsePaymentCallback();
+    if (payment) {
+      clearPaymentCallback();
+      setPaymentIntent(payment);
+      setStep("PAYMENT_PENDING");
+      return;
+    }
+
+    setIsRestoring(true);
+    refreshUsage(session.token).finally(() => setIsRestoring(false));
+  }, [hotspot]);
+
+  /**
+   * PLANS & PAYMENTS: Catalogue for top-ups, then poll the provider until
+   * the payment settles and the new quota shows up in usage.
+   */
+  const loadPlans = async () => {
+    setPlansError("");
+    try {
+      setPlans(await fetchPlanCatalogue());
     } catch (err) {
-      setStep("SUCCESS");
+      setPlans([]);
+      setPlansError(errorText(err));
     }
   };
 
   useEffect(() => {
-    runDiagnostics();
-    const interval = setInterval(runDiagnostics, 30000);
+    if ((step === "BUY_DATA" || step === "REGISTRATION") && plans === null) {
+      loadPlans();
+    }
+  }, [step, plans]);
 
-    const params = new URLSearchParams(window.location.search);
-    setUamParams({
-      uamip: params.get("uamip") || "192.168.182.1",
-      uamport: params.get("uamport") || "3990",
-      challenge: params.get("challenge") || "",
+  // Registration starts on the venue's default plan once the catalogue is in
+  useEffect(() => {
+    setFormData((current) => {
+      const offered = allPricings(plans ?? []).some(
+        (pricing) => pricing.id === current.plan_pricing,
+      );
+      if (planChosen.current && offered) return current;
+      return { ...current, plan_pricing: resolveDefaultPricing(plans ?? []) };
     });
+  }, [plans]);
 
+  const handlePurchase = async () => {
+    if (!selectedPricing) return;
+    setIsSubmitting(true);
+    clearErrors();
+    try {
+      const intent = await getPaymentProvider().start(
+        authToken,
+        selectedPricing,
+        buildPaymentReturnUrl(selectedPricing.id),
+      );
+      if (intent.paymentUrl) {
+        window.location.href = intent.paymentUrl;
+        return;
+      }
+      setPaymentIntent(intent);
+      setStep("PAYMENT_PENDING");
+    } catch (err) {
+      showError(err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  useEffect(() => {
+    if (step !== "PAYMENT_PENDING" || !paymentIntent || !authToken) return;
+
+    if (paymentIntent.status === "complete") {
+      setNoticeMessage(t("payment.complete"));
+      setPaymentIntent(null);
+      refreshUsage(authToken);
+      return;
+    }
+    if (
+      paymentIntent.status === "failed" ||
+      paymentIntent.status === "cancelled"
+    ) {
+      setErrorMessage(
+        paymentIntent.message ||
+          t(
+            paymentIntent.status === "failed"
+              ? "payment.failed"
+              : "payment.cancelled",
+          ),
+      );
+      setPaymentIntent(null);
+      setStep("BUY_DATA");
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        setPaymentIntent(
+          await getPaymentProvider().status(authToken, paymentIntent),
+        );
+      } catch (err: any) {
+        // Keep polling; the bridges may recover
+        logger.warn("payment", `Status check failed: ${err.message}`);
+        setPaymentIntent({ ...paymentIntent });
+      }
+    }, PAYMENT_POLL_MS);
+    return () => clearTimeout(timer);
+  }, [step, paymentIntent, authToken]);
+
+  useEffect(() => {
+    runDiagnostics();
+    const interval = setInterval(runDiagnostics, 30000);
     return () => clearInterval(interval);
   }, [runDiagnostics]);
 
+  /**
+   * CHILLI RESULT: Route to the right screen for the `res` Chilli sent us
+   */
+  useEffect(() => {
+    switch (hotspot.res) {
+      case "success":
+      case "already":
+        setStep("ALREADY_CONNECTED");
+        // Upgrade to the live session view if Chilli's JSON interface answers
+        getChilliStatus(hotspot)
+          .then((status) => {
+            if (status.clientState === 1) {
+              setChilliStatus(status);
+              setStep("CONNECTED");
+            }
+          })
+          .catch(() => {});
+        break;
+      case "failed":
+        setErrorMessage(
+          hotspot.reply
+            ? t("hotspot.failedReply", { reply: hotspot.reply })
+            : t("hotspot.failed"),
+        );
+        break;
+      case "logoff":
+        setNoticeMessage(t("hotspot.loggedOff"));
+        break;
+    }
+  }, [hotspot]);
+
+  /**
+   * SESSION POLLING: Keep the CONNECTED view in sync with Chilli
+   */
+  useEffect(() => {
+    if (step !== "CONNECTED") return;
+    const poll = async () => {
+      try {
+        const status = await getChilliStatus(hotspot);
+        setChilliStatus(status);
+        if (status.clientState !== 1) {
+          setNoticeMessage(t("hotspot.ended"));
+          // Usually a quota ran out; let usage say which one
+          if (authToken) refreshUsage();
+          else setStep("LOGIN");
+        }
+      } catch {
+        // Router briefly unreachable; keep showing the last known status
+      }
+    };
+    const interval = setInterval(poll, CHILLI_POLL_MS);
+    return () => clearInterval(interval);
+  }, [step, hotspot, authToken]);
+
+  /**
+   * ERRORS: Field errors go onto the matching Input, the rest to the banner
+   */
+  const clearErrors = () => {
+    setErrorMessage("");
+    setErrorKind(null);
+    setFieldErrors({});
+  };
+
+  // Transport failures and our own fallbacks are ours to word; OpenWISP
+  // messages pass through
+  const errorText = (err: unknown) => {
+    if (err instanceof NetworkError) return t("error.network");
+    if (err instanceof BridgeExhaustedError) return t("error.bridgeExhausted");
+    if (err instanceof UntrustedBridgeError)
+      return t("error.untrustedDeclined");
+    if (err instanceof AuthError) return t("session.expired");
+    if (err instanceof ThrottleError) {
+      return err.retryAfter
+        ? t("error.throttleWait", {
+            time: formatTimeSpan(err.retryAfter, locale),
+          })
+        : t("error.throttle");
+    }
+    if (err instanceof ValidationError) {
+      return err.nonFieldErrors.join(" ") || t("error.validation");
+    }
+    return err instanceof Error ? err.message : String(err);
+  };
+
+  const showError = (err: unknown, visibleFields: string[] = []) => {
+    if (err instanceof CancelledError) return;
+    if (err instanceof ValidationError) {
+      const inline: Record<string, string> = {};
+      const banner = [...err.nonFieldErrors];
+      Object.entries(err.fieldErrors).forEach(([field, message]) => {
+        if (visibleFields.includes(field)) inline[field] = message;
+        else banner.push(message);
+      });
+      setFieldErrors(inline);
+      setErrorKind(err.kind);
+      setErrorMessage(banner.join(" ") || t("error.validation"));
+      return;
+    }
+    setFieldErrors({});
+    setErrorKind(err instanceof ApiError ? err.kind : null);
+    setErrorMessage(errorText(err));
+  };
+
+  /**
+   * PHONE: Every spelling of a number has to reach OpenWISP as the same
+   * E.164 username, or it becomes a different account.
+   */
+  const toE164 = (raw: string, field: string): string | null => {
+    const phone = normalizePhone(raw, venue.phoneCountries);
+    if (phone.e164) return phone.e164;
+    setFieldErrors({ [field]: t(`phone.${phone.error}`) });
+    return null;
+  };
+
+  const checkPhone =
+    (field: string) => (e: React.FocusEvent<HTMLInputElement>) => {
+      if (!e.target.value) return;
+      const phone = normalizePhone(e.target.value, venue.phoneCountries);
+      setFieldErrors(({ [field]: _, ...rest }) =>
+        phone.e164 ? rest : { ...rest, [field]: t(`phone.${phone.error}`) },
+      );
+    };
+
+  /**
+   * REGISTRATION CHECKS: Re-run on every keystroke but only shown once a
+   * field has been left, so nobody is told off halfway through typing.
+   * A server error on a field stands until that field is edited.
+   */
+  const formIssues = validateRegistration(
+    formData,
+    venue.phoneCountries,
+    emailField,
+  );
+
+  const registrationError = (field: keyof RegistrationPayload) => {
+    const issue = touched.has(field) ? formIssues[field] : undefined;
+    return fieldErrors[field] || (issue && t(issue.key, issue.vars));
+  };
+
+  const touch = (field: keyof RegistrationPayload) => () =>
+    setTouched((current) => new Set(current).add(field));
+
+  const updateForm = (changes: Partial<RegistrationPayload>) => {
+    setFormData({ ...formData, ...changes });
+    setFieldErrors((current) => {
+      const next = { ...current };
+      Object.keys(changes).forEach((field) => delete next[field]);
+      return next;
+    });
+  };
+
+  const startRequest = () => {
+    pendingRequest.current = new AbortController();
+    return pendingRequest.current.signal;
+  };
+
+  const cancelRequest = () => pendingRequest.current?.abort();
+
   /**
    * FORM HANDLERS
    */
   const handleRegistrationSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (formData.password1 !== formData.password2)
-      return setErrorMessage("Passwords do not match.");
+    clearErrors();
+    setTouched(new Set(Object.keys(formData)));
+    if (Object.keys(formIssues).length) return;
+    const phone = toE164(formData.username, "username");
+    if (!phone) return;
 
+    const payload = { ...formData, username: phone, phone_number: phone };
+    setFormData(payload);
+    setIsSubmitting(true);
+    try {
+      const response = await registerUser(payload, startRequest());
+      const data: TokenResponse = await response.json();
+      const token = startSession(data, phone);
+      setLoginData({ username: phone, password: payload.password1 });
+      setSignupPricing(payload.plan_pricing);
+      await startVerification(payload.method, token);
+    } catch (err) {
+      showError(err, [
+        "first_name",
+        "last_name",
+        "username",
+        "phone_number",
+        "email",
+        "password1",
+        "password2",
+        "plan_pricing",
+      ]);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLoginSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    clearErrors();
+    const typed = loginUsername(loginData.username, venue.phoneCountries);
+    if (!typed) {
+      setFieldErrors({ username: t("phone.empty") });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await loginUser(
+        { ...loginData, username: typed },
+        startRequest(),
+      );
+      const data: TokenResponse = await response.json();
+      // Older accounts may have a non-E.164 username; Chilli needs the real one
+      const username = data.username || typed;
+      setLoginData({ ...loginData, username });
+      const token = startSession(data, username);
+      // Signed up earlier but never finished confirming
+      if (data.is_verified === false && isVerificationMethod(data.method)) {
+        await startVerification(data.method, token);
+      } else {
+        await refreshUsage(token);
+      }
+    } catch (err) {
+      showError(err, ["username", "password"]);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * VERIFICATION: New accounts confirm their phone (SMS code) or email
+   * (link) before they may connect; the venue picks which.
+   */
+  const isVerificationMethod = (
+    method: string | undefined,
+  ): method is VerificationMethod =>
+    method === "mobile_phone" || method === "email";
+
+  const startVerification = async (
+    method: VerificationMethod,
+    token: string,
+  ) => {
+    if (method === "email") {
+      // OpenWISP mailed the link at registration; don't send a second one
+      setOtpError("");
+      setResendIn(OTP_RESEND_COOLDOWN_S);
+      setStep("EMAIL_VERIFY");
+      return;
+    }
+    setStep("OTP_VERIFY");
+    await sendOtp(token);
+  };
+
+  const finishVerification = async () => {
+    // A paid tier picked at sign-up still needs paying for
+    const chosen = allPricings(plans ?? []).find((p) => p.id === signupPricing);
+    setSignupPricing("");
+    if (chosen?.requires_payment) {
+      setSelectedPricing(chosen);
+      setStep("PURCHASE_CONFIRM");
+      return;
+    }
+    await refreshUsage(authToken);
+  };
+
+  /**
+   * OTP: SMS code delivery with a resend cooldown and an attempt cap
+   */
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const sendOtp = async (token: string = authToken) => {
+    setOtpError("");
+    setOtpCode("");
+    try {
+      await requestOtp(token);
+      setOtpAttempts(0);
+      setResendIn(OTP_RESEND_COOLDOWN_S);
+    } catch (err) {
+      setResendIn(retryAfterSeconds(err) ?? 0);
+      setOtpError(errorText(err));
+    }
+  };
+
+  const handleOtpVerify = async (code: string = otpCode) => {
+    if (isSubmitting || otpAttempts >= OTP_MAX_ATTEMPTS) return;
+    setIsSubmitting(true);
+    setOtpError("");
+    try {
+      await verifyOtp(authToken, code);
+      await finishVerification();
+    } catch (err) {
+      setOtpCode("");
+      if (err instanceof AuthError) {
+        signOut(t("session.expired"));
+      } else if (err instanceof ValidationError) {
+        const message = err.fieldErrors.code || errorText(err);
+        const attempts = /expire/i.test(message)
+          ? OTP_MAX_ATTEMPTS
+          : otpAttempts + 1;
+        setOtpAttempts(attempts);
+        if (/expire/i.test(message)) {
+          setOtpError(t("otp.expired"));
+        } else if (attempts >= OTP_MAX_ATTEMPTS) {
+          setOtpError(t("otp.locked"));
+        } else {
+          setOtpError(
+            t("otp.attemptsLeft", {
+              message,
+              count: OTP_MAX_ATTEMPTS - attempts,
+            }),
+          );
+        }
+      } else {
+        // Transport trouble is not the user's fault; don't burn an attempt
+        setOtpError(errorText(err));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * EMAIL: The link is opened outside the portal, so all we can do is ask
+   * OpenWISP whether the account has been verified since.
+   */
+  const handleEmailConfirmed = async () => {
+    setIsSubmitting(true);
+    setOtpError("");
+    setNoticeMessage("");
+    try {
+      const response = await validateToken(authToken);
+      const data: TokenResponse = await response.json();
+      if (data.is_verified === false) {
+        setOtpError(t("email.notYet"));
+        return;
+      }
+      await finishVerification();
+    } catch (err) {
+      if (err instanceof AuthError) signOut(t("session.expired"));
+      else setOtpError(errorText(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resendEmail = async () => {
+    setOtpError("");
+    setNoticeMessage("");
+    try {
+      await resendVerificationEmail(formData.email);
+      setResendIn(OTP_RESEND_COOLDOWN_S);
+      setNoticeMessage(t("email.resent"));
+    } catch (err) {
+      setResendIn(retryAfterSeconds(err) ?? 0);
+      setOtpError(errorText(err));
+    }
+  };
+
+  /**
+   * PASSWORD RESET: SMS code to the phone, checked by the server, then a
+   * new password. Runs unauthenticated over the same bridges as login.
+   */
+  const sendResetCode = async (phone: string = resetData.phone_number) => {
+    await requestPasswordReset({ input: phone });
+    setResetData({ ...resetData, phone_number: phone, code: "" });
+    setResetGrant(null);
+    setResendIn(OTP_RESEND_COOLDOWN_S);
+  };
+
+  const handleResetRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    clearErrors();
+    setOtpError("");
+    const phone = toE164(resetData.phone_number, "phone_number");
+    if (!phone) return;
+
+    setIsSubmitting(true);
+    try {
+      await sendResetCode(phone);
+      setStep("RESET_VERIFY");
+    } catch (err) {
+      setResendIn(retryAfterSeconds(err) ?? 0);
+      showError(err, ["input", "phone_number"]);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resendResetCode = async () => {
+    setOtpError("");
+    try {
+      await sendResetCode();
+    } catch (err) {
+      setResendIn(retryAfterSeconds(err) ?? 0);
+      setOtpError(errorText(err));
+    }
+  };
+
+  const handleResetVerify = async (code: string = resetData.code) => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setOtpError("");
+    try {
+      const response = await verifyPasswordResetCode({
+        phone_number: resetData.phone_number,
+        code,
+      });
+      setResetGrant(await response.json());
+      setStep("RESET_PASSWORD");
+    } catch (err) {
+      setResetData({ ...resetData, code: "" });
+      setOtpError(
+        (err instanceof ValidationError && err.fieldErrors.code) ||
+          errorText(err),
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResetConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    clearErrors();
+    if (!resetGrant) return setStep("RESET_VERIFY");
+    if (resetData.new_password1 !== resetData.new_password2)
+      return setFieldErrors({
+        new_password2: t("session.passwordMismatch"),
+      });
+
+    setIsSubmitting(true);
+    try {
+      await confirmPasswordReset({
+        ...resetGrant,
+        new_password1: resetData.new_password1,
+        new_password2: resetData.new_password2,
+      });
+      setLoginData({ username: resetData.phone_number, password: "" });
+      setResetData({
+        phone_number: "",
+        code: "",
+        new_password1: "",
+        new_password2: "",
+      });
+      setResetGrant(null);
+      setNoticeMessage(t("reset.done"));
+      setStep("LOGIN");
+    } catch (err) {
+      // An expired grant sends the user back for a fresh code check
+      const grantError =
+        err instanceof ValidationError &&
+        (err.fieldErrors.token || err.fieldErrors.uid);
+      if (grantError) {
+        setOtpError(grantError);
+        setResetData({ ...resetData, code: "" });
+        setResetGrant(null);
+        setStep("RESET_VERIFY");
+      } else {
+        showError(err, ["new_password1", "new_password2"]);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // A restored session has no password, but OpenWISP accepts the RADIUS token
+  const chilliPassword = () => loginData.password || radiusToken;
+
+  /**
+   * ROUTER HANDOFF: This connects the device to the internet
+   */
+  const connectToRouter = async () => {
+    // Chilli would only answer with a bare RADIUS reject
+    if (usageData && !usageData.hasData) {
+      setStep("QUOTA_EXHAUSTED");
+      return;
+    }
     setIsSubmitting(true);
     setErrorMessage("");
     try {
-      const response = await registerUser(formData);
-      const data = await response.json();
-      if (response.ok) {
-        setAuthToken(data.token || data.key);
-        await requestOtp(data.token || data.key);
-        setStep("OTP_VERIFY");
+      const status = await chilliLogon(
+        hotspot,
+        loginData.username,
+        chilliPassword(),
+      );
+      if (status.clientState === 1) {
+        setChilliStatus(status);
+        setStep("CONNECTED");
       } else {
-        setErrorMessage(data.detail || "Registration failed.");
+        setErrorMessage(status.message || t("hotspot.rejected"));
       }
+      return;
     } catch (err: any) {
-      setErrorMessage(err.message);
+      logger.warn(
+        "hotspot",
+        `JSON logon unavailable, using form: ${err.message}`,
+      );
     } finally {
       setIsSubmitting(false);
     }
-  };
+    submitLogonForm();
+  };
+
+  /**
+   * FALLBACK: Full-page form logon when the JSON interface is unreachable
+   */
+  const submitLogonForm = () => {
+    const loginUrl = `${chilliBaseUrl(hotspot)}/logon`;
+
+    // We use a standard form GET to avoid HTTPS/CORS issues
+    const form = document.createElement("form");
+    form.method = "GET";
+    form.action = loginUrl;
+
+    const inputs = {
+      ...buildLogonFields({
+        username: loginData.username,
+        password: chilliPassword(),
+        challenge: hotspot.challenge,
+      }),
+      userurl: resolveUserUrl(hotspot), // Redirect here after login
+    };
+
+    Object.entries(inputs).forEach(([k, v]) => {
+      const input = document.createElement("input");
+      input.type = "hidden";
+      input.name = k;
+      input.value = v;
+      form.appendChild(input);
+    });
+
+    document.body.appendChild(form);
+    form.submit();
+  };
+
+  const disconnectFromRouter = async () => {
+    setIsSubmitting(true);
+    try {
+      await chilliLogoff(hotspot);
+    } catch (err: any) {
+      logger.warn("hotspot", `Logoff failed: ${err.message}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+    setChilliStatus(null);
+    setNoticeMessage(t("hotspot.loggedOff"));
+    setStep("LOGIN");
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    alert(t("helper.copied"));
+  };
+
+  // Same format `npm run walled-garden` prints, ready to paste into uamallowed
+  const WALLED_GARDEN = walledGardenFor(venue).join(",");
+
+  // What a technician needs to place the log: which venue, device and screen
+  const supportHeader = {
+    time: new Date().toISOString(),
+    venue: venue.id,
+    nasid: hotspot.nasid || "-",
+    mac: hotspot.mac || "-",
+    step,
+    language,
+    online: String(navigator.onLine),
+    agent: navigator.userAgent,
+  };
+
+  /**
+   * RENDER LOGIC
+   */
+  const renderContent = () => {
+    if (isRestoring) {
+      return (
+        <div className="max-w-md w-full bg-white rounded-[2.5rem] shadow-2xl p-12 border border-brand-100 text-center">
+          <Loader2 className="w-10 h-10 text-brand-500 animate-spin mx-auto mb-4" />
+          <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">
+            {t("status.restoring")}
+          </p>
+        </div>
+      );
+    }
+
+    if (
+      step === "RESET_REQUEST" ||
+      step === "RESET_VERIFY" ||
+      step === "RESET_PASSWORD"
+    ) {
+      return (
+        <div className="max-w-md w-full bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-brand-100">
+          <div className="p-8 text-center bg-brand-50 relative">
+            <button
+              onClick={() => {
+                clearErrors();
+                setStep(step === "RESET_PASSWORD" ? "RESET_VERIFY" : "LOGIN");
+              }}
+              className="absolute top-6 left-6 text-brand-500"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div className="w-16 h-16 bg-brand-500 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Fingerprint className="w-10 h-10 text-white" />
+            </div>
+            <h2 className="text-2xl font-black">{t("reset.title")}</h2>
+            <p className="text-[11px] font-bold text-gray-500 mt-2">
+              {step === "RESET_REQUEST" && t("reset.requestHint")}
+              {step === "RESET_VERIFY" && (
+                <>
+                  {t("otp.sentTo", { length: OTP_LENGTH })}{" "}
+                  <span className="text-gray-900">
+                    {resetData.phone_number}
+                  </span>
+                </>
+              )}
+              {step === "RESET_PASSWORD" && t("reset.passwordHint")}
+            </p>
+          </div>
+
+          {step === "RESET_REQUEST" && (
+            <form onSubmit={handleResetRequest} className="p-8">
+              <Input
+                label={t("field.phone")}
+                name="phone_number"
+                type="tel"
+                value={resetData.phone_number}
+                error={fieldErrors.input || fieldErrors.phone_number}
+                onChange={(e) =>
+                  setResetData({ ...resetData, phone_number: e.target.value })
+                }
+                onBlur={checkPhone("phone_number")}
+                icon={<Phone className="w-4 h-4" />}
+                required
+              />
+              {errorMessage && (
+                <div className="mb-4 p-3 bg-red-50 text-red-600 text-[10px] font-bold rounded-xl border border-red-100">
+                  {errorMessage}
+                </div>
+              )}
+              <button
+                disabled={isSubmitting}
+                className="w-full py-4 bg-brand-500 text-white font-bold rounded-2xl shadow-xl active:scale-95"
+              >
+                {isSubmitting ? (
+                  <Loader2 className="animate-spin mx-auto" />
+                ) : (
+                  t("reset.sendCode")
+                )}
+              </button>
+            </form>
+          )}
+
+          {step === "RESET_VERIFY" && (
+            <form
+              className="p-8"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleResetVerify();
+              }}
+            >
+              <OtpInput
+                value={resetData.code}
+                onChange={(code) => setResetData({ ...resetData, code })}
+                onComplete={handleResetVerify}
+                length={OTP_LENGTH}
+                disabled={isSubmitting}
+                error={otpError}
+              />
+              <button
+                disabled={isSubmitting || resetData.code.length < OTP_LENGTH}
+                className="w-full py-4 bg-brand-500 text-white font-bold rounded-2xl shadow-xl active:scale-95 disabled:opacity-50"
+              >
+                {isSubmitting ? (
+                  <Loader2 className="animate-spin mx-auto" />
+                ) : (
+                  t("common.continue")
+                )}
+              </button>
+              <button
+                type="button"
+                onClick={resendResetCode}
+                disabled={resendIn > 0}
+                className="w-full mt-4 py-3 text-brand-500 font-bold text-xs uppercase tracking-widest disabled:text-gray-400"
+              >
+                {resendIn > 0
+                  ? t("otp.resendIn", { time: formatDuration(resendIn) })
+                  : t("otp.resend")}
+              </button>
+            </form>
+          )}
+
+          {step === "RESET_PASSWORD" && (
+            <form onSubmit={handleResetConfirm} className="p-8">
+              <Input
+                label={t("field.newPassword")}
+                name="new_password1"
+                type="password"
+                value={resetData.new_password1}
+                error={fieldErrors.new_password1}
+                onChange={(e) =>
+                  setResetData({ ...resetData, new_password1: e.target.value })
+                }
+                icon={<Lock className="w-4 h-4" />}
+                required
+              />
+              <Input
+                label={t("common.confirm")}
+                name="new_password2"
+                type="password"
+                value={resetData.new_password2}
+                error={fieldErrors.new_password2}
+                onChange={(e) =>
+                  setResetData({ ...resetData, new_password2: e.target.value })
+                }
+                icon={<Lock className="w-4 h-4" />}
+                required
+              />
+              {errorMessage && (
+                <div className="mb-4 p-3 bg-red-50 text-red-600 text-[10px] font-bold rounded-xl border border-red-100">
+                  {errorMessage}
+                </div>
+              )}
+              <button
+                disabled={isSubmitting}
+                className="w-full py-4 bg-brand-500 text-white font-bold rounded-2xl shadow-xl active:scale-95"
+              >
+                {isSubmitting ? (
+                  <Loader2 className="animate-spin mx-auto" />
+                ) : (
+                  t("reset.submit")
+                )}
+              </button>
+            </form>
+          )}
+        </div>
+      );
+    }
 
-  const handleLoginSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsSubmitting(true);
-    setErrorMessage("");
-    try {
-      const response = await loginUser(loginData);
-      if (response.ok) {
-        const data = await response.json();
-        const token = data.token || data.key;
-        setAuthToken(token);
-        await refreshUsage(token);
-      } else {
-        const data = await response.json();
-        setErrorMessage(data.detail || "Login failed. Check credentials.");
-      }
-    } catch (err: any) {
-      setErrorMessage(`SECURE_BLOCK: ${err.message}`);
-    } finally {
-      setIsSubmitting(false);
+    if (step === "EMAIL_VERIFY") {
+      return (
+        <div className="max-w-md w-full bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-brand-100">
+          <div className="p-8 text-center bg-brand-50">
+            <div className="w-16 h-16 bg-brand-500 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Mail className="w-10 h-10 text-white" />
+            </div>
+            <h2 className="text-2xl font-black">{t("email.title")}</h2>
+            <p className="text-[11px] font-bold text-gray-500 mt-2">
+              {formData.email ? (
+                <>
+                  {t("email.sentTo")}{" "}
+                  <span className="text-gray-900">{formData.email}</span>
+                </>
+              ) : (
+                t("email.sentGeneric")
+              )}
+            </p>
+            <p className="text-[11px] font-bold text-gray-500 mt-1">
+              {t("email.hint")}
+            </p>
+          </div>
+          <div className="p-8">
+            {otpError && (
+              <div className="mb-4 p-3 bg-red-50 text-red-600 text-[10px] font-bold rounded-xl border border-red-100">
+                {otpError}
+              </div>
+            )}
+            {noticeMessage && !otpError && (
+              <div className="mb-4 p-3 bg-brand-50 text-brand-600 text-[10px] font-bold rounded-xl border border-brand-100">
+                {noticeMessage}
+              </div>
+            )}
+            <button
+              onClick={handleEmailConfirmed}
+              disabled={isSubmitting}
+              className="w-full py-4 bg-brand-500 text-white font-bold rounded-2xl shadow-xl active:scale-95 disabled:opacity-50"
+            >
+              {isSubmitting ? (
+                <Loader2 className="animate-spin mx-auto" />
+              ) : (
+                t("email.confirmed")
+              )}
+            </button>
+            {formData.email && (
+              <button
+                type="button"
+                onClick={resendEmail}
+                disabled={resendIn > 0}
+                className="w-full mt-4 py-3 text-brand-500 font-bold text-xs uppercase tracking-widest disabled:text-gray-400"
+              >
+                {resendIn > 0
+                  ? t("email.resendIn", { time: formatDuration(resendIn) })
+                  : t("email.resend")}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => signOut("")}
+              className="w-full py-2 text-gray-400 font-bold text-[10px] uppercase tracking-widest"
+            >
+              {t("otp.otherAccount")}
+            </button>
+          </div>
+        </div>
+      );
     }
-  };
-
-  /**
-   * ROUTER HANDOFF: This connects the device to the internet
-   */
-  const connectToRouter = () => {
-    const loginUrl = `http://${uamParams.uamip}:${uamParams.uamport}/logon`;
-
-    // We use a standard form GET to avoid HTTPS/CORS issues
-    const form = document.createElement("form");
-    form.method = "GET";
-    form.action = loginUrl;
 
-    const inputs = {
-      username: loginData.username,
-      password: loginData.password,
-      challenge: uamParams.challenge,
-      userurl: "http://neverssl.com", // Redirect here after login
-    };
-
-    Object.entries(inputs).forEach(([k, v]) => {
-      const input = document.createElement("input");
-      input.type = "hidden";
-      input.name = k;
-      input.value = v;
-      form.appendChild(input);
-    });
+    if (step === "OTP_VERIFY") {
+      const locked = otpAttempts >= OTP_MAX_ATTEMPTS;
+      return (
+        <div className="max-w-md w-full bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-brand-100">
+          <div className="p-8 text-center bg-brand-50">
+            <div className="w-16 h-16 bg-brand-500 rounded-full flex items-center justify-center mx-auto mb-4">
+              <ShieldCheck className="w-10 h-10 text-white" />
+            </div>
+            <h2 className="text-2xl font-black">{t("otp.title")}</h2>
+            <p className="text-[11px] font-bold text-gray-500 mt-2">
+              {t("otp.sentTo", { length: OTP_LENGTH })}{" "}
+              <span className="text-gray-900">
+                {formData.phone_number || loginData.username}
+              </span>
+            </p>
+          </div>
+          <form
+            className="p-8"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleOtpVerify();
+            }}
+          >
+            <OtpInput
+              value={otpCode}
+              onChange={setOtpCode}
+              onComplete={handleOtpVerify}
+              length={OTP_LENGTH}
+              disabled={isSubmitting || locked}
+              error={otpError}
+            />
+            <button
+              disabled={isSubmitting || locked || otpCode.length < OTP_LENGTH}
+              className="w-full py-4 bg-brand-500 text-white font-bold rounded-2xl shadow-xl active:scale-95 disabled:opacity-50"
+            >
+              {isSubmitting ? (
+                <Loader2 className="animate-spin mx-auto" />
+              ) : (
+                t("otp.submit")
+              )}
+            </button>
+            <button
+              type="button"
+              onClick={() => sendOtp()}
+              disabled={resendIn > 0}
+              className="w-full mt-4 py-3 text-brand-500 font-bold text-xs uppercase tracking-widest disabled:text-gray-400"
+            >
+              {resendIn > 0
+                ? t("otp.resendIn", { time: formatDuration(resendIn) })
+                : t("otp.resend")}
+            </button>
+            <button
+              type="button"
+              onClick={() => signOut("")}
+              className="w-full py-2 text-gray-400 font-bold text-[10px] uppercase tracking-widest"
+            >
+              {t("otp.otherAccount")}
+            </button>
+          </form>
+        </div>
+      );
+    }
 
-    document.body.appendChild(form);
-    form.submit();
-  };
+    if (step === "CONNECTED") {
+      const session = chilliStatus?.session;
+      const acct = chilliStatus?.accounting;
+      // RADIUS view: "input" is what the client sent, "output" what it received
+      const downloaded = totalOctets(acct?.outputOctets, acct?.outputGigawords);
+      const uploaded = totalOctets(acct?.inputOctets, acct?.inputGigawords);
+      const rows: Array<[string, string]> = [
+        [t("connected.sessionTime"), formatDuration(acct?.sessionTime ?? 0)],
+        [t("connected.downloaded"), formatBytes(downloaded, locale)],
+        [t("connected.uploaded"), formatBytes(uploaded, locale)],
+      ];
+      if (session?.sessionTimeout) {
+        rows.push([
+          t("common.timeLeft"),
+          formatDuration(session.sessionTimeout - (acct?.sessionTime ?? 0)),
+        ]);
+      }
+      if (session?.idleTimeout) {
+        rows.push([
+          t("connected.idleTimeout"),
+          `${formatDuration(acct?.idleTime ?? 0)} / ${formatDuration(session.idleTimeout)}`,
+        ]);
+      }
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
-    alert("Walled Garden list copied!");
-  };
+      return (
+        <div className="max-w-md w-full bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-brand-100">
+          <div className="p-8 text-center bg-brand-50">
+            <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Globe className="w-10 h-10 text-white" />
+            </div>
+            <h2 className="text-2xl font-black">{t("connected.title")}</h2>
+            <p className="text-[10px] font-black text-brand-500 uppercase tracking-widest flex items-center justify-center gap-2">
+              <Activity className="w-3 h-3 animate-pulse" />
+              {session?.userName || t("connected.live")}
+            </p>
+          </div>
+          <div className="p-8">
+            <div className="mb-8 space-y-3 text-[11px] font-bold text-gray-500">
+              {rows.map(([label, value]) => (
+                <div key={label} className="flex justify-between">
+                  <span>{label}</span>
+                  <span className="font-mono text-gray-900">{value}</span>
+                </div>
+              ))}
+            </div>
+            <a
+              href={resolveUserUrl(hotspot)}
+              target="_blank"
+              rel="noreferrer"
+              className="w-full py-5 bg-brand-500 text-white font-black rounded-2xl shadow-xl flex items-center justify-center gap-3 text-lg active:scale-95 transition-transform"
+            >
+              {t("common.continueBrowsing")}{" "}
+              <ExternalLink className="w-5 h-5" />
+            </a>
+            <button
+              onClick={disconnectFromRouter}
+              disabled={isSubmitting}
+              className="w-full mt-4 py-3 text-brand-500 font-bold text-xs uppercase tracking-widest"
+            >
+              {t("connected.logOff")}
+            </button>
+          </div>
+        </div>
+      );
+    }
 
-  const WALLED_GARDEN =
-    "device.onetel.co.za, tmanscript.github.io, allorigins.win, api.allorigins.win, corsproxy.io, api.codetabs.com";
+    if (step === "ALREADY_CONNECTED") {
+      const minutesLeft =
+        hotspot.timeleft !== null ? Math.floor(hotspot.timeleft / 60) : null;
+      return (
+        <div className="max-w-md w-full bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-brand-100">
+          <div className="p-8 text-center bg-brand-50">
+            <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
+              <CheckCircle2 className="w-10 h-10 text-white" />
+            </div>
+            <h2 className="text-2xl font-black">
+              {hotspot.res === "success"
+                ? t("connected.success")
+                : t("connected.already")}
+            </h2>
+            <p className="text-[10px] font-black text-brand-500 uppercase tracking-widest">
+              {hotspot.reply || t("connected.activeSession")}
+            </p>
+          </div>
+          <div className="p-8">
+            <div className="mb-8 space-y-2 text-[11px] font-bold text-gray-500">
+              {hotspot.ip && (
+                <div className="flex justify-between">
+                  <span>{t("connected.ip")}</span>
+                  <span className="font-mono text-gray-900">{hotspot.ip}</span>
+                </div>
+              )}
+              {hotspot.mac && (
+                <div className="flex justify-between">
+                  <span>{t("connected.device")}</span>
+                  <span className="font-mono text-gray-900">{hotspot.mac}</span>
+                </div>
+              )}
+              {minutesLeft !== null && (
+                <div className="flex justify-between">
+                  <span>{t("common.timeLeft")}</span>
+                  <span className="text-gray-900">
+                    {t("common.minutes", { count: minutesLeft })}
+                  </span>
+                </div>
+              )}
+            </div>
+            <a
+              href={resolveUserUrl(hotspot)}
+              className="w-full py-5 bg-brand-500 text-white font-black rounded-2xl shadow-xl flex items-center justify-center gap-3 text-lg active:scale-95 transition-transform"
+            >
+              {t("common.continueBrowsing")}{" "}
+              <ExternalLink className="w-5 h-5" />
+            </a>
+          </div>
+        </div>
+      );
+    }
 
-  /**
-   * RENDER LOGIC
-   */
-  const renderContent = () => {
     if (step === "BUY_DATA") {
       return (
-        <div className="max-w-2xl w-full bg-white rounded-[2.5rem] shadow-2xl p-12 border border-pink-100">
+        <div className="max-w-2xl w-full bg-white rounded-[2.5rem] shadow-2xl p-12 border border-brand-100">
+          <button
+            onClick={() => setStep(stepForUsage(usageData))}
+            className="flex items-center gap-2 text-brand-500 font-bold text-xs uppercase mb-8"
+          >
+            <ArrowLeft className="w-4 h-4" /> {t("common.back")}
+          </button>
+          <h2 className="text-3xl font-black mb-8 text-center">
+            {t("plans.title")}
+          </h2>
+          {plansError && (
+            <div className="mb-6 p-3 bg-red-50 text-red-600 text-[10px] font-bold rounded-xl border border-red-100 flex justify-between items-center">
+              {plansError}
+              <RefreshCw
+                onClick={loadPlans}
+                className="w-4 h-4 cursor-pointer"
+              />
+            </div>
+          )}
+          {plans === null ? (
+            <Loader2 className="w-8 h-8 text-brand-500 animate-spin mx-auto" />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {plans.flatMap((plan) =>
+                plan.pricings.map((pricing) => (
+                  <button
+                    key={pricing.id}
+                    onClick={() => {
+                      clearErrors();
+                      setSelectedPricing(pricing);
+                      setStep("PURCHASE_CONFIRM");
+                    }}
+                    className="p-8 text-left border-2 border-brand-100 rounded-3xl hover:border-brand-500 transition-all"
+                  >
+                    <Tag className="text-brand-500 mb-2" />
+                    <h4 className="text-xl font-black">{plan.name}</h4>
+                    <p className="text-[11px] text-gray-500 whitespace-pre-line mb-2">
+                      {plan.description}
+                    </p>
+                    <p className="text-brand-500 font-black text-2xl">
+                      {pricing.requires_payment
+                        ? formatPrice(pricing.price, pricing.currency, locale)
+                        : t("common.free")}
+                    </p>
+                    <p className="text-[10px] font-bold text-gray-400 uppercase">
+                      {pricing.pricing}
+                    </p>
+                  </button>
+                )),
+              )}
+              {plans.length === 0 && !plansError && (
+                <p className="text-center text-gray-400 text-sm md:col-span-2">
+                  {t("plans.empty")}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    if (step === "PURCHASE_CONFIRM" && selectedPricing) {
+      return (
+        <div className="max-w-md w-full bg-white rounded-[2.5rem] shadow-2xl p-12 border border-brand-100">
           <button
-            onClick={() => setStep("USAGE_INFO")}
-            className="flex items-center gap-2 text-pink-500 font-bold text-xs uppercase mb-8"
+            onClick={() => setStep("BUY_DATA")}
+            className="flex items-center gap-2 text-brand-500 font-bold text-xs uppercase mb-8"
           >
-            <ArrowLeft className="w-4 h-4" /> Back
+            <ArrowLeft className="w-4 h-4" /> {t("common.back")}
           </button>
-          <h2 className="text-3xl font-black mb-8 text-center">Top Up Data</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="p-8 border-2 border-pink-100 rounded-3xl hover:border-pink-500 transition-all cursor-pointer">
-              <Tag className="text-pink-500 mb-2" />
-              <h4 className="text-xl font-black">1GB Bundle</h4>
-              <p className="text-pink-500 font-black text-2xl">R 5</p>
+          <h2 className="text-2xl font-black mb-2 text-center">
+            {t("purchase.title")}
+          </h2>
+          <div className="my-8 p-6 bg-brand-50 rounded-3xl text-center">
+            <h4 className="text-xl font-black">{selectedPricing.plan}</h4>
+            <p className="text-[11px] text-gray-500 whitespace-pre-line">
+              {selectedPricing.plan_description}
+            </p>
+            <p className="text-brand-500 font-black text-3xl mt-4">
+              {selectedPricing.requires_payment
+                ? formatPrice(
+                    selectedPricing.price,
+                    selectedPricing.currency,
+                    locale,
+                  )
+                : t("common.free")}
+            </p>
+            <p className="text-[10px] font-bold text-gray-400 uppercase">
+              {selectedPricing.pricing}
+            </p>
+          </div>
+          {errorMessage && (
+            <div className="mb-4 p-3 bg-red-50 text-red-600 text-[10px] font-bold rounded-xl border border-red-100">
+              {errorMessage}
             </div>
-            <div className="p-8 bg-pink-500 text-white rounded-3xl shadow-xl cursor-pointer">
-              <h4 className="text-xl font-black">10GB Bundle</h4>
-              <p className="text-pink-100 font-black text-2xl">R 50</p>
+          )}
+          <button
+            onClick={handlePurchase}
+            disabled={isSubmitting}
+            className="w-full py-5 bg-brand-500 text-white font-black rounded-2xl shadow-xl flex items-center justify-center gap-3 text-lg active:scale-95 transition-transform"
+          >
+            {isSubmitting ? (
+              <Loader2 className="animate-spin" />
+            ) : (
+              <>
+                {selectedPricing.requires_payment
+                  ? t("purchase.pay")
+                  : t("purchase.activate")}{" "}
+                <ShoppingCart className="w-5 h-5" />
+              </>
+            )}
+          </button>
+          <p className="mt-4 text-[9px] text-center text-gray-400 uppercase font-bold">
+            {t("purchase.via", { provider: getPaymentProvider().name })}
+          </p>
+        </div>
+      );
+    }
+
+    if (step === "PAYMENT_PENDING") {
+      return (
+        <div className="max-w-md w-full bg-white rounded-[2.5rem] shadow-2xl p-12 border border-brand-100 text-center">
+          <Loader2 className="w-10 h-10 text-brand-500 animate-spin mx-auto mb-4" />
+          <h2 className="text-2xl font-black mb-2">{t("payment.waiting")}</h2>
+          <p className="text-[11px] font-bold text-gray-500">
+            {paymentIntent?.message || t("payment.pendingHint")}
+          </p>
+        </div>
+      );
+    }
+
+    if (
+      step === "QUOTA_EXHAUSTED" ||
+      (step === "USAGE_INFO" && usageData && !usageData.hasData)
+    ) {
+      const quota = usageData?.limiting;
+      return (
+        <div className="max-w-md w-full bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-brand-100">
+          <div className="p-8 text-center bg-brand-50 relative">
+            <RefreshCw
+              onClick={() => refreshUsage()}
+              className="absolute top-6 right-6 w-5 h-5 text-brand-300 cursor-pointer hover:rotate-180 transition-transform"
+            />
+            <div className="w-16 h-16 bg-orange-400 rounded-full flex items-center justify-center mx-auto mb-4">
+              <ZapOff className="w-10 h-10 text-white" />
             </div>
+            <h2 className="text-2xl font-black">
+              {quota
+                ? t("quota.usedUp", { quota: describeQuota(quota, t) })
+                : t("quota.usedUpGeneric")}
+            </h2>
+            <p className="text-[11px] font-bold text-gray-500 mt-2">
+              {quota?.resetsAt
+                ? t("quota.resetsOrTopUp", {
+                    time: formatTimeSpan(
+                      (quota.resetsAt - Date.now()) / 1000,
+                      locale,
+                    ),
+                  })
+                : t("quota.topUpHint")}
+            </p>
+          </div>
+          <div className="p-8">
+            {usageData && <UsageDashboard usage={usageData} />}
+            <button
+              onClick={() => setStep("BUY_DATA")}
+              className="w-full py-5 bg-brand-500 text-white font-black rounded-2xl shadow-xl flex items-center justify-center gap-3 text-lg active:scale-95 transition-transform"
+            >
+              {t("quota.topUp")} <ShoppingCart className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => signOut()}
+              className="w-full mt-4 py-2 text-gray-400 font-bold text-[10px] uppercase tracking-widest"
+            >
+              {t("common.signOut")}
+            </button>
           </div>
         </div>
       );
     }
 
-    if (step === "SUCCESS" || (step === "USAGE_INFO" && usageData?.hasData)) {
+    if (step === "SUCCESS" || step === "USAGE_INFO") {
       return (
-        <div className="max-w-md w-full bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-pink-100">
-          <div className="p-8 text-center bg-pink-50 relative">
+        <div className="max-w-md w-full bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-brand-100">
+          <div className="p-8 text-center bg-brand-50 relative">
             <RefreshCw
               onClick={() => refreshUsage()}
-              className="absolute top-6 right-6 w-5 h-5 text-pink-300 cursor-pointer hover:rotate-180 transition-transform"
+              className="absolute top-6 right-6 w-5 h-5 text-brand-300 cursor-pointer hover:rotate-180 transition-transform"
             />
             <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
               <CheckCircle2 className="w-10 h-10 text-white" />
             </div>
-            <h2 className="text-2xl font-black">Account Active</h2>
-            <p className="text-[10px] font-black text-pink-500 uppercase tracking-widest">
-              Resilience Node v5.5
+            <h2 className="text-2xl font-black">{t("account.title")}</h2>
+            <p className="text-[10px] font-black text-brand-500 uppercase tracking-widest">
+              {t("status.node")}
             </p>
           </div>
           <div className="p-8">
-            {usageData && (
-              <div className="mb-8 text-center">
-                <div className="text-5xl font-black text-gray-900">
-                  {usageData.remainingMB}
-                  <span className="text-lg ml-1">MB</span>
-                </div>
-                <div className="w-full bg-gray-100 h-3 rounded-full mt-4 overflow-hidden">
-                  <div
-                    className="bg-pink-500 h-full transition-all duration-1000"
-                    style={{ width: `${usageData.percent}%` }}
-                  />
-                </div>
-                <p className="text-[10px] font-bold text-gray-400 mt-2 uppercase">
-                  Remaining Data Balance
-                </p>
+            {usageData && <UsageDashboard usage={usageData} />}
+            {errorMessage && (
+              <div className="mb-4 p-3 bg-red-50 text-red-600 text-[10px] font-bold rounded-xl border border-red-100">
+                {errorMessage}
               </div>
             )}
             <button
               onClick={connectToRouter}
-              className="w-full py-5 bg-pink-500 text-white font-black rounded-2xl shadow-xl flex items-center justify-center gap-3 text-lg active:scale-95 transition-transform"
+              disabled={isSubmitting}
+              className="w-full py-5 bg-brand-500 text-white font-black rounded-2xl shadow-xl flex items-center justify-center gap-3 text-lg active:scale-95 transition-transform"
             >
-              CONNECT TO INTERNET <Zap className="w-6 h-6 fill-current" />
+              {isSubmitting ? (
+                <Loader2 className="animate-spin" />
+              ) : (
+                <>
+                  {t("account.connect")}{" "}
+                  <Zap className="w-6 h-6 fill-current" />
+                </>
+              )}
             </button>
             <button
               onClick={() => setStep("BUY_DATA")}
-              className="w-full mt-4 py-3 text-pink-500 font-bold text-xs uppercase tracking-widest"
+              className="w-full mt-4 py-3 text-brand-500 font-bold text-xs uppercase tracking-widest"
             >
-              Buy More Data
+              {t("account.buyMore")}
+            </button>
+            <button
+              onClick={() => signOut()}
+              className="w-full py-2 text-gray-400 font-bold text-[10px] uppercase tracking-widest"
+            >
+              {t("common.signOut")}
             </button>
           </div>
         </div>
@@ -361,104 +1656,197 @@ const App: React.FC = () => {
 
     if (step === "REGISTRATION") {
       return (
-        <div className="max-w-4xl w-full grid grid-cols-1 lg:grid-cols-2 bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-pink-100">
-          <div className="hidden lg:flex flex-col justify-between p-12 bg-pink-500 text-white">
+        <div className="max-w-4xl w-full grid grid-cols-1 lg:grid-cols-2 bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-brand-100">
+          <div className="hidden lg:flex flex-col justify-between p-12 bg-brand-500 text-white">
             <div>
               <div className="flex items-center gap-2 mb-4 bg-white/20 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest w-fit">
-                <Radio className="w-3 h-3 animate-pulse" /> Shadow Tunnel Active
+                <Radio className="w-3 h-3 animate-pulse" /> {t("status.tunnel")}
               </div>
               <h2 className="text-4xl font-bold leading-tight">
-                Create your
-                <br />
-                Onetel Account
+                {venue.text.registerHeadline ||
+                  t("venue.registerHeadline", { brand: venue.text.brandName })}
               </h2>
             </div>
             <div className="bg-black/10 p-4 rounded-2xl border border-white/10">
-              <p className="text-[10px] font-black uppercase mb-3 text-pink-100">
-                Bridge Status
+              <p className="text-[10px] font-black uppercase mb-3 text-brand-100">
+                {t("register.bridgeStatus")}
               </p>
-              {diagnostics.map((d) => (
-                <div
-                  key={d.name}
-                  className="flex justify-between text-[10px] mb-1 font-bold"
-                >
-                  <span>{d.name}</span>
-                  <span
-                    className={
-                      d.status === "ok" ? "text-green-300" : "text-orange-300"
-                    }
+              {!diagnostics && (
+                <p className="text-[10px] font-bold opacity-60">
+                  {t("diagnostics.checking")}
+                </p>
+              )}
+              {diagnostics
+                ?.filter((d) => d.scope === "bridge")
+                .map((d) => (
+                  <div
+                    key={d.id}
+                    title={d.detail}
+                    className="flex justify-between text-[10px] mb-1 font-bold"
                   >
-                    {d.status.toUpperCase()}
-                  </span>
-                </div>
-              ))}
+                    <span>{d.name}</span>
+                    <span
+                      className={
+                        d.verdict === "healthy"
+                          ? "text-green-300"
+                          : "text-orange-300"
+                      }
+                    >
+                      {t(VERDICT_LABELS[d.verdict])}
+                    </span>
+                  </div>
+                ))}
             </div>
           </div>
           <div className="p-8 sm:p-12">
             <button
               onClick={() => setStep("LOGIN")}
-              className="flex items-center gap-2 text-pink-500 font-bold text-xs uppercase mb-6"
+              className="flex items-center gap-2 text-brand-500 font-bold text-xs uppercase mb-6"
             >
-              <ArrowLeft className="w-4 h-4" /> Back
+              <ArrowLeft className="w-4 h-4" /> {t("common.back")}
             </button>
             <form onSubmit={handleRegistrationSubmit} className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <Input
-                  label="First Name"
+                  label={t("field.firstName")}
                   name="first_name"
+                  error={registrationError("first_name")}
                   value={formData.first_name}
-                  onChange={(e) =>
-                    setFormData({ ...formData, first_name: e.target.value })
-                  }
+                  onChange={(e) => updateForm({ first_name: e.target.value })}
+                  onBlur={touch("first_name")}
                   required
                 />
                 <Input
-                  label="Last Name"
+                  label={t("field.lastName")}
                   name="last_name"
+                  error={registrationError("last_name")}
                   value={formData.last_name}
-                  onChange={(e) =>
-                    setFormData({ ...formData, last_name: e.target.value })
-                  }
+                  onChange={(e) => updateForm({ last_name: e.target.value })}
+                  onBlur={touch("last_name")}
                   required
                 />
               </div>
               <Input
-                label="Phone"
+                label={t("field.phone")}
                 name="username"
                 type="tel"
                 value={formData.username}
+                error={
+                  registrationError("username") || fieldErrors.phone_number
+                }
                 onChange={(e) =>
-                  setFormData({
-                    ...formData,
+                  updateForm({
                     username: e.target.value,
                     phone_number: e.target.value,
                   })
                 }
+                onBlur={touch("username")}
                 icon={<Phone className="w-4 h-4" />}
                 required
               />
+              {emailField !== "hidden" && (
+                <Input
+                  label={
+                    emailField === "required"
+                      ? t("field.email")
+                      : t("field.emailOptional")
+                  }
+                  name="email"
+                  type="email"
+                  value={formData.email}
+                  error={registrationError("email")}
+                  onChange={(e) => updateForm({ email: e.target.value })}
+                  onBlur={touch("email")}
+                  icon={<Mail className="w-4 h-4" />}
+                  required={emailField === "required"}
+                />
+              )}
               <Input
-                label="Password"
+                label={t("field.password")}
                 name="password1"
+                error={registrationError("password1")}
                 type="password"
                 value={formData.password1}
-                onChange={(e) =>
-                  setFormData({ ...formData, password1: e.target.value })
-                }
+                onChange={(e) => updateForm({ password1: e.target.value })}
+                onBlur={touch("password1")}
                 icon={<Lock className="w-4 h-4" />}
                 required
               />
+              <PasswordStrength
+                score={passwordStrength(
+                  formData.password1,
+                  passwordAttributes(formData, venue.phoneCountries),
+                )}
+              />
               <Input
-                label="Confirm"
+                label={t("common.confirm")}
                 name="password2"
+                error={registrationError("password2")}
                 type="password"
                 value={formData.password2}
-                onChange={(e) =>
-                  setFormData({ ...formData, password2: e.target.value })
-                }
+                onChange={(e) => updateForm({ password2: e.target.value })}
+                onBlur={touch("password2")}
                 icon={<Lock className="w-4 h-4" />}
                 required
               />
+              {plans && plans.length > 0 && (
+                <div className="mb-4">
+                  <p className="block text-sm font-semibold text-gray-700 mb-1">
+                    {t("field.plan")}
+                  </p>
+                  <div className="space-y-2">
+                    {allPricings(plans).map((pricing) => {
+                      const selected = formData.plan_pricing === pricing.id;
+                      const dataCap = planDataCap(pricing);
+                      return (
+                        <label
+                          key={pricing.id}
+                          className={`flex items-center justify-between gap-3 p-3 border rounded-xl cursor-pointer transition-all ${selected ? "border-brand-500 bg-brand-50" : "border-gray-200"}`}
+                        >
+                          <input
+                            type="radio"
+                            name="plan_pricing"
+                            value={pricing.id}
+                            checked={selected}
+                            onChange={() => {
+                              planChosen.current = true;
+                              setFormData({
+                                ...formData,
+                                plan_pricing: pricing.id,
+                              });
+                            }}
+                            className="accent-brand-500"
+                          />
+                          <span className="flex-1">
+                            <span className="block text-sm font-bold">
+                              {pricing.plan}
+                            </span>
+                            <span className="block text-[10px] text-gray-400 font-bold uppercase">
+                              {[dataCap, pricing.pricing]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </span>
+                          </span>
+                          <span className="text-sm font-black text-brand-500">
+                            {pricing.requires_payment
+                              ? formatPrice(
+                                  pricing.price,
+                                  pricing.currency,
+                                  locale,
+                                )
+                              : t("common.free")}
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                  {fieldErrors.plan_pricing && (
+                    <p className="mt-1 text-xs text-red-500 font-medium">
+                      {fieldErrors.plan_pricing}
+                    </p>
+                  )}
+                </div>
+              )}
               {errorMessage && (
                 <div className="p-3 bg-red-50 text-red-600 text-[10px] font-bold rounded-xl border border-red-100">
                   {errorMessage}
@@ -466,14 +1854,23 @@ const App: React.FC = () => {
               )}
               <button
                 disabled={isSubmitting}
-                className="w-full py-4 bg-pink-500 text-white font-bold rounded-2xl shadow-xl"
+                className="w-full py-4 bg-brand-500 text-white font-bold rounded-2xl shadow-xl"
               >
                 {isSubmitting ? (
                   <Loader2 className="animate-spin mx-auto" />
                 ) : (
-                  "Sign Up"
+                  t("register.submit")
                 )}
               </button>
+              {isSubmitting && (
+                <button
+                  type="button"
+                  onClick={cancelRequest}
+                  className="w-full text-gray-400 font-bold text-[10px] uppercase tracking-widest"
+                >
+                  {t("common.cancel")}
+                </button>
+              )}
             </form>
           </div>
         </div>
@@ -481,65 +1878,73 @@ const App: React.FC = () => {
     }
 
     return (
-      <div className="max-w-4xl w-full grid grid-cols-1 lg:grid-cols-2 bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-pink-100">
-        <div className="hidden lg:flex flex-col justify-between p-12 bg-pink-500 text-white">
+      <div className="max-w-4xl w-full grid grid-cols-1 lg:grid-cols-2 bg-white rounded-[2.5rem] shadow-2xl overflow-hidden border border-brand-100">
+        <div className="hidden lg:flex flex-col justify-between p-12 bg-brand-500 text-white">
           <div>
             <h2 className="text-4xl font-bold leading-tight">
-              Fast WiFi
-              <br />
-              Everywhere
+              {venue.text.tagline || t("venue.tagline")}
             </h2>
           </div>
           <div className="bg-black/10 p-5 rounded-2xl border border-white/10 shadow-inner">
             <div className="flex justify-between items-center mb-4">
-              <p className="text-[10px] font-black uppercase tracking-widest text-pink-100">
-                Network Diagnostics
+              <p className="text-[10px] font-black uppercase tracking-widest text-brand-100">
+                {t("diagnostics.title")}
               </p>
               <button
                 onClick={() => setShowLogs(!showLogs)}
                 className="text-[9px] underline"
               >
-                Logs
+                {t("diagnostics.logs")}
               </button>
             </div>
             {showLogs ? (
-              <div className="text-[8px] font-mono h-24 overflow-y-auto">
-                {lastBridgeLogs.map((l, i) => (
-                  <div key={i}>
-                    {l.bridge}: {l.error}
-                  </div>
-                ))}
-              </div>
+              <SupportLog header={supportHeader} onCopy={copyToClipboard} />
             ) : (
               <div className="space-y-2">
-                {diagnostics.map((d) => (
+                {!diagnostics && (
+                  <p className="text-[11px] font-bold opacity-60">
+                    {t("diagnostics.checking")}
+                  </p>
+                )}
+                {diagnostics?.map((d) => (
                   <div
-                    key={d.name}
+                    key={`${d.scope}:${d.id}`}
+                    title={d.detail}
                     className="flex justify-between text-[11px] font-bold"
                   >
                     <span className="flex items-center gap-2">
                       <div
-                        className={`w-2 h-2 rounded-full ${d.status === "ok" ? "bg-green-400" : "bg-orange-400 animate-pulse"}`}
+                        className={`w-2 h-2 rounded-full ${d.verdict === "healthy" ? "bg-green-400" : "bg-orange-400 animate-pulse"}`}
                       />{" "}
                       {d.name}
                     </span>
                     <span className="opacity-60">
-                      {d.status === "ok" ? `${d.latency}ms` : "TRAPPED"}
+                      {d.verdict === "healthy"
+                        ? `${d.latency}ms`
+                        : t(VERDICT_LABELS[d.verdict])}
                     </span>
                   </div>
                 ))}
+                {diagnosticHints.map((key) => (
+                  <p
+                    key={key}
+                    className="text-[9px] leading-tight text-brand-100 pt-1"
+                  >
+                    {t(key)}
+                  </p>
+                ))}
               </div>
             )}
           </div>
         </div>
         <div className="p-8 sm:p-12 flex flex-col justify-center">
-          <h3 className="text-2xl font-bold mb-8">Sign In</h3>
+          <h3 className="text-2xl font-bold mb-8">{t("login.title")}</h3>
           <form onSubmit={handleLoginSubmit} className="space-y-4">
             <Input
-              label="Phone"
+              label={t("field.phone")}
               name="username"
-              type="tel"
               value={loginData.username}
+              error={fieldErrors.username}
               onChange={(e) =>
                 setLoginData({ ...loginData, username: e.target.value })
               }
@@ -547,46 +1952,69 @@ const App: React.FC = () => {
               required
             />
             <Input
-              label="Password"
+              label={t("field.password")}
               name="password"
               type="password"
               value={loginData.password}
+              error={fieldErrors.password}
               onChange={(e) =>
                 setLoginData({ ...loginData, password: e.target.value })
               }
               icon={<Lock className="w-4 h-4" />}
               required
             />
+            {noticeMessage && !errorMessage && (
+              <div className="p-4 bg-brand-50 text-brand-600 text-[11px] font-bold rounded-xl border border-brand-100 flex gap-2">
+                <Info className="w-4 h-4" /> {noticeMessage}
+              </div>
+            )}
             {errorMessage && (
               <div className="p-4 bg-red-50 text-red-600 text-[11px] font-bold rounded-xl border border-red-100">
                 <div className="flex gap-2">
                   <XCircle className="w-4 h-4" /> {errorMessage}
                 </div>
-                {errorMessage.includes("SECURE_BLOCK") && (
+                {errorKind === "bridge_exhausted" && (
                   <div className="mt-2 text-[9px] text-red-400 leading-tight">
-                    The router is hijacking the secure login. Try opening{" "}
-                    <span className="underline">http://neverssl.com</span>{" "}
-                    first, then come back.
+                    {t("login.hijackHint", { url: HIJACK_HELP_URL })}
                   </div>
                 )}
               </div>
             )}
             <button
               disabled={isSubmitting}
-              className="w-full py-4 bg-pink-500 text-white font-bold rounded-2xl shadow-xl active:scale-95"
+              className="w-full py-4 bg-brand-500 text-white font-bold rounded-2xl shadow-xl active:scale-95"
             >
               {isSubmitting ? (
                 <Loader2 className="animate-spin mx-auto" />
               ) : (
-                "Sign In & Connect"
+                t("login.submit")
               )}
             </button>
+            {isSubmitting && (
+              <button
+                type="button"
+                onClick={cancelRequest}
+                className="w-full text-gray-400 font-bold text-[10px] uppercase tracking-widest"
+              >
+                {t("common.cancel")}
+              </button>
+            )}
           </form>
           <button
             onClick={() => setStep("REGISTRATION")}
-            className="mt-6 text-pink-500 font-bold text-xs uppercase tracking-widest text-center"
+            className="mt-6 text-brand-500 font-bold text-xs uppercase tracking-widest text-center"
+          >
+            {t("login.newAccount")}
+          </button>
+          <button
+            onClick={() => {
+              clearErrors();
+              setResetData({ ...resetData, phone_number: loginData.username });
+              setStep("RESET_REQUEST");
+            }}
+            className="mt-3 text-gray-400 font-bold text-[10px] uppercase tracking-widest text-center"
           >
-            New Account
+            {t("login.forgotPassword")}
           </button>
         </div>
       </div>
@@ -594,29 +2022,41 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-[#fdf2f8]">
+    <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-page">
       <div className="mb-8 text-center">
-        <h1 className="text-5xl font-black text-gray-900 tracking-tighter">
-          ONETEL<span className="text-pink-500">.</span>
-        </h1>
+        {venue.logoUrl ? (
+          <img
+            src={venue.logoUrl}
+            alt={venue.text.brandName}
+            className="h-16 mx-auto"
+          />
+        ) : (
+          <h1 className="text-5xl font-black text-gray-900 tracking-tighter">
+            {venue.text.brandName}
+            <span className="text-brand-500">.</span>
+          </h1>
+        )}
+      </div>
+      <div className="mb-6">
+        <LanguageSwitcher />
       </div>
       {renderContent()}
       {showHelper && (
-        <div className="mt-8 max-w-xl w-full bg-white border-2 border-pink-100 rounded-[2rem] p-6 shadow-xl">
+        <div className="mt-8 max-w-xl w-full bg-white border-2 border-brand-100 rounded-[2rem] p-6 shadow-xl">
           <div className="flex justify-between items-center mb-4">
             <h4 className="text-[10px] font-black uppercase tracking-widest flex items-center gap-2">
-              <ServerCrash className="w-4 h-4 text-pink-500" /> Portal Rescue
-              Kit
+              <ServerCrash className="w-4 h-4 text-brand-500" />{" "}
+              {t("helper.title")}
             </h4>
             <button
               onClick={() => setShowHelper(false)}
               className="text-[9px] font-bold uppercase"
             >
-              Dismiss
+              {t("common.dismiss")}
             </button>
           </div>
           <p className="text-[10px] text-gray-500 mb-3">
-            Ensure these are in your <b>uamallowed</b> list:
+            {t("helper.uamallowed")}
           </p>
           <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 flex gap-2 items-center">
             <code className="text-[9px] font-mono text-gray-500 flex-1 truncate">
@@ -624,16 +2064,23 @@ const App: React.FC = () => {
             </code>
             <button
               onClick={() => copyToClipboard(WALLED_GARDEN)}
-              className="p-2 bg-pink-500 text-white rounded-lg"
+              className="p-2 bg-brand-500 text-white rounded-lg"
             >
               <Copy className="w-3 h-3" />
             </button>
           </div>
         </div>
       )}
+      {bridgeConsent && (
+        <UntrustedBridgePrompt
+          bridges={bridgeConsent.bridges}
+          onAllow={() => answerBridgeConsent(true)}
+          onDecline={() => answerBridgeConsent(false)}
+        />
+      )}
       <p className="mt-8 text-gray-400 text-[10px] font-black uppercase tracking-widest flex items-center gap-2">
         <div className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></div>{" "}
-        Hyper-Path v5.5 Active
+        {t("status.footer")}
       </p>
     </div>
   );
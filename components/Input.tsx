@@ -25,7 +25,7 @@ const Input: React.FC<InputProps> = ({ label, error, icon, className, ...props }
             ${icon ? 'pl-10' : ''}
             ${error 
               ? 'border-red-500 focus:ring-2 focus:ring-red-200' 
-              : 'border-gray-200 focus:border-pink-500 focus:ring-4 focus:ring-pink-100'}
+              : 'border-gray-200 focus:border-brand-500 focus:ring-4 focus:ring-brand-100'}
             ${className}`}
         />
       </div>
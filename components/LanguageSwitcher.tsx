@@ -0,0 +1,27 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Language, LANGUAGES, useI18n } from '../i18n';
+
+const LanguageSwitcher: React.FC = () => {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-gray-400">
+      <Languages className="w-4 h-4 text-brand-500" />
+      <span className="sr-only">{t('language.label')}</span>
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as Language)}
+        className="bg-transparent font-black uppercase tracking-widest text-gray-500 outline-none cursor-pointer"
+      >
+        {(Object.keys(LANGUAGES) as Language[]).map((code) => (
+          <option key={code} value={code} lang={code}>
+            {LANGUAGES[code].label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,97 @@
+import React, { useRef } from 'react';
+import { useI18n } from '../i18n';
+
+interface OtpInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  length?: number;
+  disabled?: boolean;
+  error?: string;
+}
+
+const OtpInput: React.FC<OtpInputProps> = ({
+  value,
+  onChange,
+  onComplete,
+  length = 6,
+  disabled,
+  error,
+}) => {
+  const { t } = useI18n();
+  const refs = useRef<Array<HTMLInputElement | null>>([]);
+  const digits = Array.from({ length }, (_, i) => value[i] || '');
+
+  const update = (next: string, focusIndex: number) => {
+    const code = next.replace(/\D/g, '').slice(0, length);
+    onChange(code);
+    refs.current[Math.min(focusIndex, length - 1)]?.focus();
+    if (code.length === length) onComplete?.(code);
+  };
+
+  const handleChange = (index: number, raw: string) => {
+    const typed = raw.replace(/\D/g, '');
+    if (!typed) return;
+    // Empty box, or SMS autofill dropping the whole code into one box
+    if (!digits[index] || typed.length > 2) {
+      update(value.slice(0, index) + typed, index + typed.length);
+      return;
+    }
+    // Typing over a filled box replaces just that digit
+    const char = typed.replace(digits[index], '') || digits[index];
+    update(value.slice(0, index) + char[0] + value.slice(index + 1), index + 1);
+  };
+
+  const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Backspace') {
+      e.preventDefault();
+      const target = digits[index] ? index : Math.max(0, index - 1);
+      onChange(value.slice(0, target));
+      refs.current[target]?.focus();
+    } else if (e.key === 'ArrowLeft') {
+      refs.current[Math.max(0, index - 1)]?.focus();
+    } else if (e.key === 'ArrowRight') {
+      refs.current[Math.min(length - 1, index + 1)]?.focus();
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    e.preventDefault();
+    const pasted = e.clipboardData.getData('text');
+    update(pasted, pasted.replace(/\D/g, '').length);
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between gap-2">
+        {digits.map((digit, i) => (
+          <input
+            key={i}
+            ref={(el) => {
+              refs.current[i] = el;
+            }}
+            type="text"
+            inputMode="numeric"
+            autoComplete={i === 0 ? 'one-time-code' : 'off'}
+            aria-label={t('otp.digit', { index: i + 1 })}
+            value={digit}
+            disabled={disabled}
+            // Only the next empty box is reachable so digits stay contiguous
+            readOnly={i > value.length}
+            onFocus={() => i > value.length && refs.current[value.length]?.focus()}
+            onChange={(e) => handleChange(i, e.target.value)}
+            onKeyDown={(e) => handleKeyDown(i, e)}
+            onPaste={handlePaste}
+            className={`w-12 h-14 text-center text-2xl font-black bg-white border rounded-xl outline-none transition-all duration-200 disabled:opacity-50
+              ${error
+                ? 'border-red-500 focus:ring-2 focus:ring-red-200'
+                : 'border-gray-200 focus:border-brand-500 focus:ring-4 focus:ring-brand-100'}`}
+          />
+        ))}
+      </div>
+      {error && <p className="mt-2 text-xs text-red-500 font-medium text-center">{error}</p>}
+    </div>
+  );
+};
+
+export default OtpInput;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { MessageKey, useI18n } from '../i18n';
+
+interface PasswordStrengthProps {
+  // 0 (nothing typed) to 4, from passwordStrength()
+  score: number;
+}
+
+const BAR_COLORS = ['bg-gray-200', 'bg-red-400', 'bg-orange-400', 'bg-yellow-400', 'bg-green-500'];
+const LABELS: MessageKey[] = ['strength.weak', 'strength.weak', 'strength.fair', 'strength.good', 'strength.strong'];
+
+const PasswordStrength: React.FC<PasswordStrengthProps> = ({ score }) => {
+  const { t } = useI18n();
+  if (score === 0) return null;
+
+  return (
+    <div className="-mt-2 mb-4" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map((level) => (
+          <div
+            key={level}
+            className={`h-1.5 flex-1 rounded-full transition-all duration-300 ${level <= score ? BAR_COLORS[score] : BAR_COLORS[0]}`}
+          />
+        ))}
+      </div>
+      <p className="mt-1 text-[10px] font-bold text-gray-400 uppercase">
+        {t('strength.label')}: {t(LABELS[score])}
+      </p>
+    </div>
+  );
+};
+
+export default PasswordStrength;
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, QrCode } from 'lucide-react';
+import qrcode from 'qrcode-generator';
+import { formatReport, getLogs, subscribeLogs } from '../services/logger';
+import { useI18n } from '../i18n';
+
+interface SupportLogProps {
+  // Device and venue facts printed above the log lines
+  header: Record<string, string>;
+  onCopy: (text: string) => void;
+}
+
+// Larger codes will not scan off a phone screen held up to another phone
+const QR_MAX_LENGTH = 1200;
+
+const qrDataUrl = (text: string): string => {
+  const qr = qrcode(0, 'L');
+  // The generator only encodes single bytes
+  qr.addData(text.replace(/[^\x20-\x7e\n]/g, '?'));
+  qr.make();
+  return qr.createDataURL(3, 4);
+};
+
+const SupportLog: React.FC<SupportLogProps> = ({ header, onCopy }) => {
+  const { t } = useI18n();
+  const [entries, setEntries] = useState(() => getLogs('info'));
+  const [showQr, setShowQr] = useState(false);
+
+  useEffect(() => subscribeLogs(() => setEntries(getLogs('info'))), []);
+
+  return (
+    <div>
+      <div className="text-[8px] font-mono h-24 overflow-y-auto">
+        {entries.map((entry, i) => (
+          <div key={i} className={entry.level === 'info' ? '' : 'text-orange-200'}>
+            {new Date(entry.time).toLocaleTimeString()} {entry.source}: {entry.message}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={() => onCopy(formatReport(header))}
+          className="flex items-center gap-1 text-[9px] font-bold uppercase bg-white/20 px-2 py-1 rounded-lg"
+        >
+          <Copy className="w-3 h-3" /> {t('diagnostics.copy')}
+        </button>
+        <button
+          onClick={() => setShowQr(!showQr)}
+          className="flex items-center gap-1 text-[9px] font-bold uppercase bg-white/20 px-2 py-1 rounded-lg"
+        >
+          <QrCode className="w-3 h-3" /> {t('diagnostics.qr')}
+        </button>
+      </div>
+      {showQr && (
+        <img
+          src={qrDataUrl(formatReport(header, getLogs('info'), QR_MAX_LENGTH))}
+          alt={t('diagnostics.qrAlt')}
+          className="mt-3 mx-auto bg-white rounded-xl"
+        />
+      )}
+    </div>
+  );
+};
+
+export default SupportLog;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+interface UntrustedBridgePromptProps {
+  // Names of the third-party bridges the request would go through
+  bridges: string[];
+  onAllow: () => void;
+  onDecline: () => void;
+}
+
+const UntrustedBridgePrompt: React.FC<UntrustedBridgePromptProps> = ({ bridges, onAllow, onDecline }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" role="alertdialog" aria-modal="true">
+      <div className="max-w-sm w-full bg-white rounded-[2rem] p-6 shadow-2xl">
+        <div className="flex items-center gap-3 mb-3">
+          <ShieldAlert className="w-6 h-6 text-orange-500 shrink-0" />
+          <h3 className="text-sm font-black text-gray-900">{t('transport.untrustedTitle')}</h3>
+        </div>
+        <p className="text-xs text-gray-500 mb-6">{t('transport.untrustedBody', { bridges: bridges.join(', ') })}</p>
+        <div className="flex flex-col gap-2">
+          <button
+            onClick={onDecline}
+            className="w-full py-3 bg-brand-500 text-white rounded-2xl text-xs font-black uppercase tracking-widest"
+          >
+            {t('transport.decline')}
+          </button>
+          <button onClick={onAllow} className="w-full py-3 text-gray-400 text-[10px] font-bold uppercase tracking-widest">
+            {t('transport.useProxy')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UntrustedBridgePrompt;
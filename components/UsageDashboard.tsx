@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Database, Gauge } from 'lucide-react';
+import { Quota, UsageSummary } from '../types';
+import { describeQuota } from '../services/usage';
+import { formatBitrate, formatBytes, formatTimeSpan } from '../utils/format';
+import { useI18n } from '../i18n';
+
+interface UsageDashboardProps {
+  usage: UsageSummary;
+}
+
+const formatAmount = (quota: Quota, amount: number, locale: string) =>
+  quota.kind === 'data' ? formatBytes(amount, locale) : formatTimeSpan(amount, locale);
+
+const QuotaIcon: React.FC<{ quota: Quota }> = ({ quota }) => {
+  const className = 'w-4 h-4 text-brand-500';
+  if (quota.kind === 'data') return <Database className={className} />;
+  if (quota.kind === 'speed') return <Gauge className={className} />;
+  return <Clock className={className} />;
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ usage }) => {
+  const { t, locale } = useI18n();
+  // Tick once a minute so reset countdowns stay current
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { limiting } = usage;
+
+  return (
+    <div className="mb-8">
+      {limiting && (
+        <div className="text-center mb-6">
+          <div className="text-5xl font-black text-gray-900">
+            {formatAmount(limiting, limiting.remaining, locale)}
+          </div>
+          <p className="text-[10px] font-bold text-gray-400 mt-2 uppercase">
+            {t('quota.remaining', { quota: describeQuota(limiting, t) })}
+          </p>
+        </div>
+      )}
+      <div className="space-y-4">
+        {usage.quotas.map((quota) => (
+          <div key={quota.attribute} className="p-4 bg-gray-50 rounded-2xl">
+            <div className="flex justify-between items-center text-[11px] font-bold">
+              <span className="flex items-center gap-2 text-gray-700">
+                <QuotaIcon quota={quota} />
+                {describeQuota(quota, t)}
+              </span>
+              <span className="text-gray-900">
+                {quota.kind === 'speed'
+                  ? formatBitrate(quota.limit, locale)
+                  : `${formatAmount(quota, quota.remaining, locale)} / ${formatAmount(quota, quota.limit, locale)}`}
+              </span>
+            </div>
+            {quota.kind !== 'speed' && (
+              <div className="w-full bg-gray-200 h-2 rounded-full mt-3 overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-1000 ${quota.exhausted ? 'bg-red-400' : 'bg-brand-500'}`}
+                  style={{ width: `${quota.percent}%` }}
+                />
+              </div>
+            )}
+            {quota.resetsAt && (
+              <p className="text-[9px] font-bold text-gray-400 mt-2 uppercase">
+                {t('quota.resetsIn', { time: formatTimeSpan((quota.resetsAt - now) / 1000, locale) })}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
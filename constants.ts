@@ -1,10 +1,68 @@
 
-export const API_ENDPOINT = 'https://device.onetel.co.za/api/v1/radius/organization/umoja/account/';
+import { ThemeTokens } from './types';
+
+export const API_HOST = 'https://device.onetel.co.za';
+export const DEFAULT_ORGANIZATION = 'umoja';
 export const DEFAULT_PLAN_UUID = '148c5cf9-1c6c-45a4-9872-303cebe86f92';
 
-// Theme colors (Hot Pink)
-export const THEME_COLORS = {
-  primary: '#FF69B4', // Hot Pink
-  secondary: '#FFFFFF', // White
-  accent: '#DB2777', // Darker pink for hover
+// Bridge attempts: captive networks often hang rather than refuse
+export const BRIDGE_TIMEOUT_MS = 8000;
+export const BRIDGE_RACE_WIDTH = 2;
+export const BRIDGE_MAX_RETRIES = 2;
+export const BRIDGE_BACKOFF_MS = 400;
+
+// Runtime venue config served next to index.html (see public/portal-config.json)
+export const VENUE_CONFIG_URL = './portal-config.json';
+export const VENUE_CONFIG_TIMEOUT_MS = 3000;
+
+// Theme colors (Hot Pink), overridable per venue
+export const DEFAULT_THEME: ThemeTokens = {
+  primary: '#ec4899',
+  primaryDark: '#db2777',
+  primaryLight: '#f9a8d4',
+  tint: '#fce7f3',
+  surface: '#fdf2f8',
+  background: '#fdf2f8',
 };
+
+// Where the portal is deployed; Chilli's uamhomepage / uamserver point here
+export const PORTAL_URL = 'https://tmanscript.github.io/captive-portal/';
+// Plain-HTTP page that lets a router show its own sign-in when it hijacks requests
+export const HIJACK_HELP_URL = 'http://neverssl.com';
+
+// Countries whose mobile numbers can register; national numbers are read as the first
+export const DEFAULT_PHONE_COUNTRIES = ['ZA'];
+
+// Must match MinimumLengthValidator in OpenWISP's AUTH_PASSWORD_VALIDATORS
+export const PASSWORD_MIN_LENGTH = 8;
+
+// CoovaChilli UAM logon: 'chap' sends an MD5 response, 'pap' an XOR-encoded password
+export const UAM_AUTH_MODE: 'chap' | 'pap' = 'chap';
+// Must match HS_UAMSECRET on the router; leave empty if none is configured
+export const UAM_SECRET = '';
+
+// Chilli defaults when the portal is opened without redirect parameters
+export const DEFAULT_UAM_IP = '192.168.182.1';
+export const DEFAULT_UAM_PORT = '3990';
+// Where to send users after logon if Chilli did not tell us their original URL
+export const DEFAULT_USER_URL = 'http://neverssl.com';
+
+// Chilli JSON interface: how long to wait for a JSONP reply and how often to poll status
+export const CHILLI_TIMEOUT_MS = 8000;
+export const CHILLI_POLL_MS = 5000;
+
+// How long a saved sign-in survives portal reloads
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// SMS verification: seconds between resends and wrong codes allowed per SMS
+export const OTP_RESEND_COOLDOWN_S = 60;
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_LENGTH = 6;
+
+// Payment provider used for top-ups: 'openwisp' in production, 'mock' for local testing
+export const PAYMENT_PROVIDER: 'openwisp' | 'mock' = 'openwisp';
+export const PAYMENT_POLL_MS = 3000;
+
+// Below these a quota counts as used up; Chilli would reject the logon anyway
+export const MIN_DATA_BYTES = 1024 * 10;
+export const MIN_TIME_SECONDS = 60;
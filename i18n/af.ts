@@ -0,0 +1,198 @@
+import { Messages } from "./en";
+
+const af: Messages = {
+  "language.label": "Taal",
+
+  "common.back": "Terug",
+  "common.continue": "Gaan voort",
+  "common.confirm": "Bevestig",
+  "common.dismiss": "Maak toe",
+  "common.cancel": "Kanselleer",
+  "common.free": "Gratis",
+  "common.signOut": "Teken uit",
+  "common.continueBrowsing": "BLAAI VERDER",
+  "common.timeLeft": "Tyd oor",
+  "common.minutes": "{count} min",
+
+  "field.firstName": "Voornaam",
+  "field.lastName": "Van",
+  "field.phone": "Foon",
+  "field.password": "Wagwoord",
+  "field.newPassword": "Nuwe wagwoord",
+  "field.plan": "Pakket",
+  "field.email": "E-pos",
+  "field.emailOptional": "E-pos (opsioneel)",
+
+  "phone.empty": "Tik jou selfoonnommer in.",
+  "phone.invalid": "Dit lyk nie soos 'n foonnommer nie.",
+  "phone.country": "Nommers van daardie land kan nie hier registreer nie.",
+  "phone.not_mobile": "Gebruik asseblief 'n selfoonnommer, bv. 082 123 4567.",
+
+  "validation.required": "Hierdie veld is verpligtend.",
+  "validation.email": "Tik 'n geldige e-posadres in.",
+  "validation.passwordLength": "Gebruik minstens {min} karakters.",
+  "validation.passwordNumeric": "Die wagwoord kan nie net syfers wees nie.",
+  "validation.passwordSimilar":
+    "Die wagwoord is te soortgelyk aan jou naam of foonnommer.",
+  "validation.passwordCommon": "Daardie wagwoord is te algemeen.",
+  "strength.label": "Wagwoordsterkte",
+  "strength.weak": "Swak",
+  "strength.fair": "Redelik",
+  "strength.good": "Goed",
+  "strength.strong": "Sterk",
+
+  "venue.tagline": "Vinnige WiFi oral",
+  "venue.registerHeadline": "Skep jou {brand}-rekening",
+  "status.tunnel": "Skadutonnel aktief",
+  "status.node": "Veerkragnodus v5.5",
+  "status.footer": "Hyper-Path v5.5 aktief",
+  "status.restoring": "Herstel jou sessie",
+
+  "login.title": "Teken in",
+  "login.submit": "Teken in en koppel",
+  "login.newAccount": "Nuwe rekening",
+  "login.forgotPassword": "Wagwoord vergeet?",
+  "login.hijackHint":
+    "Die router kaap die veilige aanmelding. Maak eers {url} oop en kom dan terug.",
+
+  "register.submit": "Registreer",
+  "register.bridgeStatus": "Brugstatus",
+
+  "diagnostics.title": "Netwerkdiagnose",
+  "diagnostics.logs": "Logboek",
+  "diagnostics.copy": "Kopieer verslag",
+  "diagnostics.qr": "QR-kode",
+  "diagnostics.qrAlt": "Ondersteuningsverslag as 'n QR-kode",
+  "diagnostics.checking": "Kontroleer brûe…",
+  "detector.healthy": "OK",
+  "detector.walledGarden": "NIE TOEGELAAT",
+  "detector.dns": "DNS MISLUK",
+  "detector.unreachable": "ONBEREIKBAAR",
+  "detector.tls": "TLS ONDERSKEP",
+  "detector.intercepted": "ONDERSKEP",
+  "detector.upstream": "BRON AF",
+  "detector.cors": "CORS GEBLOKKEER",
+  "detector.timeout": "UITTEL",
+  "detector.walledGardenHint":
+    "Nie toegelaat: hierdie gasheer ontbreek in die hotspot se ommuurde tuin. Voeg dit by uamallowed.",
+  "detector.dnsHint":
+    "DNS misluk: niks antwoord nie, selfs nie die portaal se eie gasheer nie, so name word nie opgelos nie of die hotspot het geen internetverbinding nie. Kontroleer die hotspot se DNS en internetverbinding.",
+  "detector.unreachableHint":
+    "Onbereikbaar: ander gashere antwoord, maar hierdie een nie. Dit is dalk af, geblokkeer of agter 'n vervangde sertifikaat. Probeer binnekort weer, of kontroleer die hotspot se filters.",
+  "detector.tlsHint":
+    "TLS onderskep: die gasheer antwoord oor gewone HTTP, maar die veilige verbinding misluk, so iets op hierdie netwerk vervang die sertifikaat. Skakel HTTPS-inspeksie op die roeteerder of brandmuur af.",
+  "detector.interceptedHint":
+    "Onderskep: iets op hierdie netwerk het in die plek van die bediener geantwoord. Maak http://neverssl.com oop om enige roeteerder-aanmelding te voltooi en probeer dan weer.",
+  "detector.upstreamHint":
+    "Bron af: die brug het geantwoord, maar kon nie die rekeningbediener bereik nie. 'n Ander brug kom dalk steeds deur; anders probeer binnekort weer.",
+  "detector.corsHint":
+    "CORS geblokkeer: die bediener het geantwoord, maar die blaaier het die antwoord verwerp. Gebruik die aflos of 'n ander brug.",
+  "detector.timeoutHint":
+    "Uittel: geen antwoord betyds nie. Die netwerk is dalk besig; probeer binnekort weer.",
+
+  "otp.title": "Bevestig jou foon",
+  "otp.sentTo": "Tik die {length}-syferkode in wat ons gestuur het na",
+  "otp.submit": "Bevestig en gaan voort",
+  "otp.resendIn": "Stuur weer oor {time}",
+  "otp.resend": "Stuur kode weer",
+  "otp.otherAccount": "Gebruik 'n ander rekening",
+  "otp.digit": "Syfer {index}",
+  "otp.expired": "Hierdie kode het verval. Vra asseblief 'n nuwe een aan.",
+  "otp.locked": "Te veel verkeerde kodes. Vra asseblief 'n nuwe een aan.",
+  "otp.attemptsLeft": "{message} Pogings oor: {count}.",
+
+  "email.title": "Kyk in jou e-pos",
+  "email.sentTo": "Ons het 'n bevestigingskakel gestuur na",
+  "email.sentGeneric":
+    "Ons het 'n bevestigingskakel na jou e-posadres gestuur.",
+  "email.hint": "Maak die skakel oop, kom dan terug en gaan voort.",
+  "email.confirmed": "Ek het bevestig",
+  "email.notYet":
+    "Jou e-pos is nog nie bevestig nie. Maak die skakel oop wat ons gestuur het.",
+  "email.resendIn": "Stuur e-pos weer oor {time}",
+  "email.resend": "Stuur e-pos weer",
+  "email.resent": "Ons het die skakel weer gestuur.",
+
+  "reset.title": "Herstel wagwoord",
+  "reset.requestHint": "Ons stuur 'n herstelkode per SMS na jou foon.",
+  "reset.passwordHint": "Kies 'n nuwe wagwoord.",
+  "reset.sendCode": "Stuur herstelkode",
+  "reset.submit": "Stel nuwe wagwoord",
+  "reset.done": "Wagwoord opgedateer. Teken in met jou nuwe wagwoord.",
+
+  "session.expired": "Jou sessie het verval. Teken asseblief weer in.",
+  "session.signedOut": "Jy is uitgeteken.",
+  "session.passwordMismatch": "Wagwoorde stem nie ooreen nie.",
+
+  "account.title": "Rekening aktief",
+  "account.connect": "KOPPEL AAN INTERNET",
+  "account.buyMore": "Koop meer data",
+
+  "connected.title": "Jy is aanlyn",
+  "connected.live": "Lewendige sessie",
+  "connected.sessionTime": "Sessietyd",
+  "connected.downloaded": "Afgelaai",
+  "connected.uploaded": "Opgelaai",
+  "connected.idleTimeout": "Ledige uitteltyd",
+  "connected.logOff": "Meld af",
+  "connected.already": "Reeds aanlyn",
+  "connected.success": "Jy is gekoppel",
+  "connected.activeSession": "Hierdie toestel het 'n aktiewe sessie",
+  "connected.ip": "IP-adres",
+  "connected.device": "Toestel",
+
+  "hotspot.failed": "Hotspot-aanmelding het misluk. Teken asseblief weer in.",
+  "hotspot.failedReply": "Hotspot-aanmelding het misluk: {reply}",
+  "hotspot.loggedOff": "Jy is van die hotspot afgemeld.",
+  "hotspot.ended": "Jou hotspot-sessie het geëindig.",
+  "hotspot.rejected": "Die hotspot het die aanmelding geweier.",
+
+  "quota.remaining": "{quota} oor",
+  "quota.resetsIn": "Stel terug oor {time}",
+  "quota.usedUp": "{quota} opgebruik",
+  "quota.usedUpGeneric": "Kwota opgebruik",
+  "quota.resetsOrTopUp": "Dit stel terug oor {time}, of jy kan nou aanvul.",
+  "quota.topUpHint": "Vul aan om verder te blaai.",
+  "quota.topUp": "VUL AAN",
+  "quota.label": "{reset} {kind}",
+  "quota.kind.time": "tyd",
+  "quota.kind.data": "data",
+  "quota.kind.speed": "spoedgrens",
+  "quota.reset.daily": "Daaglikse",
+  "quota.reset.weekly": "Weeklikse",
+  "quota.reset.monthly": "Maandelikse",
+  "quota.reset.never": "Totale",
+
+  "plans.title": "Vul data aan",
+  "plans.empty": "Daar is tans geen bundels beskikbaar nie.",
+  "purchase.title": "Bevestig aankoop",
+  "purchase.pay": "BETAAL NOU",
+  "purchase.activate": "AKTIVEER",
+  "purchase.via": "via {provider}",
+  "payment.waiting": "Wag vir betaling",
+  "payment.pendingHint":
+    "Ons werk jou balans by sodra die betaling bevestig is.",
+  "payment.complete": "Betaling ontvang. Jou data is aangevul.",
+  "payment.failed": "Betaling het misluk. Jy is nie gehef nie.",
+  "payment.cancelled": "Betaling gekanselleer. Jy is nie gehef nie.",
+
+  "helper.title": "Portaal-reddingskit",
+  "helper.uamallowed": "Maak seker hierdie is in jou uamallowed-lys:",
+  "helper.copied": "Walled Garden-lys gekopieer!",
+
+  "transport.untrustedTitle": "Slegs 'n openbare instaanbediener is bereikbaar",
+  "transport.untrustedBody":
+    "Jou besonderhede sal deur {bridges} gaan, 'n diens wat ons nie bestuur nie. Dit kan jou wagwoord lees. Gaan net voort as jy dit vertrou.",
+  "transport.useProxy": "Stuur tog deur die instaanbediener",
+  "transport.decline": "Moenie stuur nie",
+  "error.network": "Hierdie toestel is nie aan die netwerk gekoppel nie.",
+  "error.bridgeExhausted":
+    "Alle toegangsroetes is geblokkeer. Gaan asseblief die Walled Garden-instellings na.",
+  "error.untrustedDeclined":
+    "Nie gestuur nie. Probeer later weer of vra die personeel om hulp.",
+  "error.validation": "Korrigeer asseblief die gemerkte velde.",
+  "error.throttle": "Te veel pogings. Wag asseblief en probeer weer.",
+  "error.throttleWait": "Te veel pogings. Probeer weer oor {time}.",
+};
+
+export default af;
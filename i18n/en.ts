@@ -0,0 +1,201 @@
+/**
+ * SOURCE CATALOGUE: English is the reference language. Every other catalogue
+ * is checked against these keys and falls back to them when a string is
+ * missing. Placeholders are written `{name}`.
+ */
+const en = {
+  "language.label": "Language",
+
+  "common.back": "Back",
+  "common.continue": "Continue",
+  "common.confirm": "Confirm",
+  "common.dismiss": "Dismiss",
+  "common.cancel": "Cancel",
+  "common.free": "Free",
+  "common.signOut": "Sign Out",
+  "common.continueBrowsing": "CONTINUE BROWSING",
+  "common.timeLeft": "Time Left",
+  "common.minutes": "{count} min",
+
+  "field.firstName": "First Name",
+  "field.lastName": "Last Name",
+  "field.phone": "Phone",
+  "field.password": "Password",
+  "field.newPassword": "New Password",
+  "field.plan": "Plan",
+  "field.email": "Email",
+  "field.emailOptional": "Email (optional)",
+
+  "phone.empty": "Enter your mobile number.",
+  "phone.invalid": "That doesn't look like a phone number.",
+  "phone.country": "Numbers from that country can't register here.",
+  "phone.not_mobile": "Please use a mobile number, e.g. 082 123 4567.",
+
+  "validation.required": "This field is required.",
+  "validation.email": "Enter a valid email address.",
+  "validation.passwordLength": "Use at least {min} characters.",
+  "validation.passwordNumeric": "The password can't be only numbers.",
+  "validation.passwordSimilar":
+    "The password is too similar to your name or phone number.",
+  "validation.passwordCommon": "That password is too common.",
+  "strength.label": "Password strength",
+  "strength.weak": "Weak",
+  "strength.fair": "Fair",
+  "strength.good": "Good",
+  "strength.strong": "Strong",
+
+  "venue.tagline": "Fast WiFi Everywhere",
+  "venue.registerHeadline": "Create your {brand} Account",
+  "status.tunnel": "Shadow Tunnel Active",
+  "status.node": "Resilience Node v5.5",
+  "status.footer": "Hyper-Path v5.5 Active",
+  "status.restoring": "Restoring your session",
+
+  "login.title": "Sign In",
+  "login.submit": "Sign In & Connect",
+  "login.newAccount": "New Account",
+  "login.forgotPassword": "Forgot Password?",
+  "login.hijackHint":
+    "The router is hijacking the secure login. Try opening {url} first, then come back.",
+
+  "register.submit": "Sign Up",
+  "register.bridgeStatus": "Bridge Status",
+
+  "diagnostics.title": "Network Diagnostics",
+  "diagnostics.logs": "Logs",
+  "diagnostics.copy": "Copy report",
+  "diagnostics.qr": "QR code",
+  "diagnostics.qrAlt": "Support report as a QR code",
+  "diagnostics.checking": "Checking bridges…",
+  "detector.healthy": "OK",
+  "detector.walledGarden": "NOT ALLOWED",
+  "detector.dns": "DNS FAILED",
+  "detector.unreachable": "UNREACHABLE",
+  "detector.tls": "TLS INTERCEPTED",
+  "detector.intercepted": "INTERCEPTED",
+  "detector.upstream": "UPSTREAM DOWN",
+  "detector.cors": "CORS BLOCKED",
+  "detector.timeout": "TIMEOUT",
+  "detector.walledGardenHint":
+    "Not allowed: this host is missing from the hotspot's walled garden. Add it to uamallowed.",
+  "detector.dnsHint":
+    "DNS failed: nothing answers, not even the portal's own host, so names are not resolving or the hotspot has no uplink. Check the hotspot's DNS and internet connection.",
+  "detector.unreachableHint":
+    "Unreachable: other hosts answer but this one does not. It may be down, blocked, or behind a replaced certificate. Try again shortly, or check the hotspot's filtering.",
+  "detector.tlsHint":
+    "TLS intercepted: the host answers over plain HTTP but its secure connection fails, so something on this network is replacing the certificate. Turn off HTTPS inspection on the router or firewall.",
+  "detector.interceptedHint":
+    "Intercepted: something on this network answered in place of the server. Open http://neverssl.com to finish any router sign-in, then try again.",
+  "detector.upstreamHint":
+    "Upstream down: the bridge answered but could not reach the account server. Another bridge may still get through; otherwise try again shortly.",
+  "detector.corsHint":
+    "CORS blocked: the server answered, but the browser rejected the reply. Use the relay or another bridge.",
+  "detector.timeoutHint":
+    "Timeout: no answer in time. The network may be congested; try again shortly.",
+
+  "otp.title": "Verify Your Phone",
+  "otp.sentTo": "Enter the {length}-digit code we sent to",
+  "otp.submit": "Verify & Continue",
+  "otp.resendIn": "Resend code in {time}",
+  "otp.resend": "Resend Code",
+  "otp.otherAccount": "Use a different account",
+  "otp.digit": "Digit {index}",
+  "otp.expired": "This code has expired. Please request a new one.",
+  "otp.locked": "Too many incorrect codes. Please request a new one.",
+  "otp.attemptsLeft": "{message} Attempts left: {count}.",
+
+  "email.title": "Check Your Email",
+  "email.sentTo": "We sent a confirmation link to",
+  "email.sentGeneric": "We sent a confirmation link to your email address.",
+  "email.hint": "Open the link, then come back and continue.",
+  "email.confirmed": "I've Confirmed",
+  "email.notYet": "Your email isn't confirmed yet. Open the link we sent you.",
+  "email.resendIn": "Resend email in {time}",
+  "email.resend": "Resend Email",
+  "email.resent": "We've sent the link again.",
+
+  "reset.title": "Reset Password",
+  "reset.requestHint": "We'll send a reset code to your phone by SMS.",
+  "reset.passwordHint": "Choose a new password.",
+  "reset.sendCode": "Send Reset Code",
+  "reset.submit": "Set New Password",
+  "reset.done": "Password updated. Sign in with your new password.",
+
+  "session.expired": "Your session has expired. Please sign in again.",
+  "session.signedOut": "You have been signed out.",
+  "session.passwordMismatch": "Passwords do not match.",
+
+  "account.title": "Account Active",
+  "account.connect": "CONNECT TO INTERNET",
+  "account.buyMore": "Buy More Data",
+
+  "connected.title": "You're Online",
+  "connected.live": "Live Session",
+  "connected.sessionTime": "Session Time",
+  "connected.downloaded": "Downloaded",
+  "connected.uploaded": "Uploaded",
+  "connected.idleTimeout": "Idle Timeout",
+  "connected.logOff": "Log Off",
+  "connected.already": "Already Online",
+  "connected.success": "You're Connected",
+  "connected.activeSession": "This device has an active session",
+  "connected.ip": "IP Address",
+  "connected.device": "Device",
+
+  "hotspot.failed": "Hotspot login failed. Please sign in again.",
+  "hotspot.failedReply": "Hotspot login failed: {reply}",
+  "hotspot.loggedOff": "You have been logged off the hotspot.",
+  "hotspot.ended": "Your hotspot session has ended.",
+  "hotspot.rejected": "The hotspot rejected the login.",
+
+  "quota.remaining": "{quota} Remaining",
+  "quota.resetsIn": "Resets in {time}",
+  "quota.usedUp": "{quota} Used Up",
+  "quota.usedUpGeneric": "Quota Used Up",
+  "quota.resetsOrTopUp": "It resets in {time}, or you can top up now.",
+  "quota.topUpHint": "Top up to keep browsing.",
+  "quota.topUp": "TOP UP",
+  "quota.label": "{reset} {kind}",
+  "quota.kind.time": "Time",
+  "quota.kind.data": "Data",
+  "quota.kind.speed": "Speed Limit",
+  "quota.reset.daily": "Daily",
+  "quota.reset.weekly": "Weekly",
+  "quota.reset.monthly": "Monthly",
+  "quota.reset.never": "Total",
+
+  "plans.title": "Top Up Data",
+  "plans.empty": "No bundles are available right now.",
+  "purchase.title": "Confirm Purchase",
+  "purchase.pay": "PAY NOW",
+  "purchase.activate": "ACTIVATE",
+  "purchase.via": "via {provider}",
+  "payment.waiting": "Waiting for Payment",
+  "payment.pendingHint":
+    "We'll update your balance as soon as the payment is confirmed.",
+  "payment.complete": "Payment received. Your data has been topped up.",
+  "payment.failed": "Payment failed. You have not been charged.",
+  "payment.cancelled": "Payment cancelled. You have not been charged.",
+
+  "helper.title": "Portal Rescue Kit",
+  "helper.uamallowed": "Ensure these are in your uamallowed list:",
+  "helper.copied": "Walled Garden list copied!",
+
+  "transport.untrustedTitle": "Only a public proxy is reachable",
+  "transport.untrustedBody":
+    "Your details would pass through {bridges}, a service we do not run. It could read your password. Continue only if you trust it.",
+  "transport.useProxy": "Send through the proxy anyway",
+  "transport.decline": "Don't send",
+  "error.network": "This device is not connected to the network.",
+  "error.bridgeExhausted":
+    "All access paths blocked. Please check Walled Garden settings.",
+  "error.untrustedDeclined": "Not sent. Try again later or ask staff for help.",
+  "error.validation": "Please correct the highlighted fields.",
+  "error.throttle": "Too many attempts. Please wait and try again.",
+  "error.throttleWait": "Too many attempts. Try again in {time}.",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Partial<Record<MessageKey, string>>;
+
+export default en;
@@ -0,0 +1,117 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import en, { MessageKey, Messages } from "./en";
+import zu from "./zu";
+import xh from "./xh";
+import af from "./af";
+import st from "./st";
+import { getItem, setItem } from "../utils/storage";
+
+export type { MessageKey };
+
+export type Language = "en" | "zu" | "xh" | "af" | "st";
+
+export type Translate = (
+  key: MessageKey,
+  vars?: Record<string, string | number>,
+) => string;
+
+interface LanguageOption {
+  label: string; // shown in its own language
+  locale: string; // BCP 47 tag for Intl number formatting
+  messages: Messages;
+}
+
+export const LANGUAGES: Record<Language, LanguageOption> = {
+  en: { label: "English", locale: "en-ZA", messages: en },
+  zu: { label: "isiZulu", locale: "zu-ZA", messages: zu },
+  xh: { label: "isiXhosa", locale: "xh-ZA", messages: xh },
+  af: { label: "Afrikaans", locale: "af-ZA", messages: af },
+  st: { label: "Sesotho", locale: "st-ZA", messages: st },
+};
+
+const STORAGE_KEY = "onetel.language";
+
+const isLanguage = (value: string | null): value is Language =>
+  value !== null && Object.hasOwn(LANGUAGES, value);
+
+/**
+ * DETECTION: A language picked on the switcher wins, then the first browser
+ * preference we have a catalogue for ("zu-ZA" and "zu" both match isiZulu).
+ */
+export const detectLanguage = (
+  preferred: readonly string[] = navigator.languages?.length
+    ? navigator.languages
+    : [navigator.language],
+): Language => {
+  const stored = getItem(STORAGE_KEY);
+  if (isLanguage(stored)) return stored;
+  const match = preferred
+    .map((tag) => tag.toLowerCase().split("-")[0])
+    .find(isLanguage);
+  return match ?? "en";
+};
+
+let activeLanguage: Language = detectLanguage();
+
+// For code outside React, e.g. the Accept-Language header on API calls
+export const getLanguage = (): Language => activeLanguage;
+
+/**
+ * Looks the key up in the language's catalogue, falling back to English,
+ * and fills `{name}` placeholders. Numbers are formatted for the locale.
+ */
+export const translate = (
+  language: Language,
+  key: MessageKey,
+  vars: Record<string, string | number> = {},
+): string => {
+  const { locale, messages } = LANGUAGES[language];
+  const template = messages[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = vars[name];
+    if (value === undefined) return placeholder;
+    return typeof value === "number"
+      ? new Intl.NumberFormat(locale).format(value)
+      : value;
+  });
+};
+
+interface I18nContextValue {
+  language: Language;
+  locale: string;
+  setLanguage: (language: Language) => void;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [language, setLanguageState] = useState<Language>(activeLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = (next: Language) => {
+    activeLanguage = next;
+    setItem(STORAGE_KEY, next);
+    setLanguageState(next);
+  };
+
+  const value: I18nContextValue = {
+    language,
+    locale: LANGUAGES[language].locale,
+    setLanguage,
+    t: (key, vars) => translate(language, key, vars),
+  };
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used inside I18nProvider");
+  return context;
+};
@@ -0,0 +1,201 @@
+import { Messages } from "./en";
+
+const st: Messages = {
+  "language.label": "Puo",
+
+  "common.back": "Morao",
+  "common.continue": "Tswela pele",
+  "common.confirm": "Netefatsa",
+  "common.dismiss": "Kwala",
+  "common.cancel": "Hlakola",
+  "common.free": "Mahala",
+  "common.signOut": "Tswa",
+  "common.continueBrowsing": "TSWELA PELE HO BATLISISA",
+  "common.timeLeft": "Nako e setseng",
+  "common.minutes": "metsotso e {count}",
+
+  "field.firstName": "Lebitso",
+  "field.lastName": "Fane",
+  "field.phone": "Founu",
+  "field.password": "Phasewete",
+  "field.newPassword": "Phasewete e ntjha",
+  "field.plan": "Moralo",
+  "field.email": "Imeile",
+  "field.emailOptional": "Imeile (ha e a qobellwa)",
+
+  "phone.empty": "Kenya nomoro ya hao ya selefounu.",
+  "phone.invalid": "Hoo ha ho shebahale jwalo ka nomoro ya founu.",
+  "phone.country": "Dinomoro tsa naha eo di ke ke tsa ingodisa mona.",
+  "phone.not_mobile":
+    "Ka kopo sebedisa nomoro ya selefounu, mohl. 082 123 4567.",
+
+  "validation.required": "Sebaka sena se a hlokahala.",
+  "validation.email": "Kenya aterese ya imeile e nepahetseng.",
+  "validation.passwordLength": "Sebedisa bonyane ditlhaku tse {min}.",
+  "validation.passwordNumeric": "Phasewete e ke ke ya ba dinomoro feela.",
+  "validation.passwordSimilar":
+    "Phasewete e tshwana haholo le lebitso kapa nomoro ya founu ya hao.",
+  "validation.passwordCommon": "Phasewete eo e tlwaelehile haholo.",
+  "strength.label": "Matla a phasewete",
+  "strength.weak": "E fokola",
+  "strength.fair": "E mahareng",
+  "strength.good": "E lokile",
+  "strength.strong": "E matla",
+
+  "venue.tagline": "WiFi e potlakileng hohle",
+  "venue.registerHeadline": "Bula akhaonto ya hao ya {brand}",
+  "status.tunnel": "Shadow Tunnel e a sebetsa",
+  "status.node": "Resilience Node v5.5",
+  "status.footer": "Hyper-Path v5.5 e a sebetsa",
+  "status.restoring": "Re kgutlisa seshene ya hao",
+
+  "login.title": "Kena",
+  "login.submit": "Kena mme o hokahane",
+  "login.newAccount": "Akhaonto e ntjha",
+  "login.forgotPassword": "O lebetse phasewete?",
+  "login.hijackHint":
+    "Router e thibela ho kena ho sireletsehileng. Leka ho bula {url} pele, ebe o kgutla.",
+
+  "register.submit": "Ingodisa",
+  "register.bridgeStatus": "Boemo ba marokgo",
+
+  "diagnostics.title": "Tlhahlobo ya netweke",
+  "diagnostics.logs": "Dilogo",
+  "diagnostics.copy": "Kopitsa tlaleho",
+  "diagnostics.qr": "Khoutu ya QR",
+  "diagnostics.qrAlt": "Tlaleho ya tshehetso e le khoutu ya QR",
+  "diagnostics.checking": "E hlahloba marokgo…",
+  "detector.healthy": "HO LOKILE",
+  "detector.walledGarden": "HA HO A DUMELLWA",
+  "detector.dns": "DNS E HLOLEHILE",
+  "detector.unreachable": "HA HO FIHLELLEHE",
+  "detector.tls": "TLS E THIBETSWE",
+  "detector.intercepted": "HO THIBETSWE",
+  "detector.upstream": "SEVA HA E FUMANEHE",
+  "detector.cors": "CORS E THIBETSWE",
+  "detector.timeout": "NAKO E FELILE",
+  "detector.walledGardenHint":
+    "Ha ho a dumellwa: host ena ha e yo ho walled garden ya hotspot. E kenye ho uamallowed.",
+  "detector.dnsHint":
+    "DNS e hlolehile: ha ho letho le arabang, esita le host ya portal ka boyona, kahoo mabitso ha a fumanwe kapa hotspot ha e na kgokahano ya inthanete. Hlahloba DNS ya hotspot le kgokahano ya inthanete.",
+  "detector.unreachableHint":
+    "Ha ho fihllehe: di-host tse ding di a araba empa ena ha e arabe. E ka nna ya be e sa sebetse, e thibetswe, kapa setifikeiti sa yona se fetotswe. Leka hape haufinyane, kapa o hlahlobe ho sefa ha hotspot.",
+  "detector.tlsHint":
+    "TLS e thibetswe: host e araba ka HTTP e tlwaelehileng empa kgokahano e sireletsehileng e a hloleha, kahoo ho hong marang-rang ana ho fetola setifikeiti. Tima tlhahlobo ya HTTPS ho router kapa firewall.",
+  "detector.interceptedHint":
+    "Ho thibetswe: ho hong marang-rang ana ho arabile sebakeng sa seva. Bula http://neverssl.com ho qeta ho kena ha router, ebe o leka hape.",
+  "detector.upstreamHint":
+    "Seva ha e fumanehe: borokho bo arabile empa ha bo a kgona ho fihlella seva ya akhaunte. Borokho bo bong bo ka nna ba feta; ho seng jwalo leka hape haufinyane.",
+  "detector.corsHint":
+    "CORS e thibetswe: seva e arabile, empa sebatli se hanne karabo. Sebedisa relay kapa borokho bo bong.",
+  "detector.timeoutHint":
+    "Nako e felile: ha ho karabo ka nako. Marang-rang a ka nna a tletse; leka hape haufinyane.",
+
+  "otp.title": "Netefatsa founu ya hao",
+  "otp.sentTo": "Kenya khoutu ya dinomoro tse {length} eo re e rometseng ho",
+  "otp.submit": "Netefatsa mme o tswele pele",
+  "otp.resendIn": "Romela hape ka mora {time}",
+  "otp.resend": "Romela khoutu hape",
+  "otp.otherAccount": "Sebedisa akhaonto e nngwe",
+  "otp.digit": "Nomoro {index}",
+  "otp.expired": "Khoutu ena e fetilwe ke nako. Ka kopo kopa e ntjha.",
+  "otp.locked": "Dikhoutu tse ngata tse fosahetseng. Ka kopo kopa e ntjha.",
+  "otp.attemptsLeft": "{message} Maiteko a setseng: {count}.",
+
+  "email.title": "Sheba imeile ya hao",
+  "email.sentTo": "Re romelletse sehokelo sa netefatso ho",
+  "email.sentGeneric":
+    "Re romelletse sehokelo sa netefatso atereseng ya hao ya imeile.",
+  "email.hint": "Bula sehokelo, ebe o kgutla o tswela pele.",
+  "email.confirmed": "Ke netefaditse",
+  "email.notYet":
+    "Imeile ya hao ha e so netefatswe. Bula sehokelo seo re o romelletseng sona.",
+  "email.resendIn": "Romela imeile hape ka mora {time}",
+  "email.resend": "Romela imeile hape",
+  "email.resent": "Re rometse sehokelo hape.",
+
+  "reset.title": "Seta phasewete botjha",
+  "reset.requestHint":
+    "Re tla romela khoutu ya ho seta botjha founung ya hao ka SMS.",
+  "reset.passwordHint": "Kgetha phasewete e ntjha.",
+  "reset.sendCode": "Romela khoutu",
+  "reset.submit": "Seta phasewete e ntjha",
+  "reset.done": "Phasewete e ntjhafaditswe. Kena ka phasewete ya hao e ntjha.",
+
+  "session.expired": "Seshene ya hao e fetilwe ke nako. Ka kopo kena hape.",
+  "session.signedOut": "O tswile.",
+  "session.passwordMismatch": "Diphasewete ha di tshwane.",
+
+  "account.title": "Akhaonto e a sebetsa",
+  "account.connect": "HOKAHANA LE INTHANETE",
+  "account.buyMore": "Reka data e eketsehileng",
+
+  "connected.title": "O inthaneteng",
+  "connected.live": "Seshene e phelang",
+  "connected.sessionTime": "Nako ya seshene",
+  "connected.downloaded": "Tse jarollotsweng",
+  "connected.uploaded": "Tse romeletsweng",
+  "connected.idleTimeout": "Nako ya ho se sebetse",
+  "connected.logOff": "Tswa hotspot",
+  "connected.already": "O se o le inthaneteng",
+  "connected.success": "O hokahane",
+  "connected.activeSession": "Sesebediswa sena se na le seshene e sebetsang",
+  "connected.ip": "Aterese ya IP",
+  "connected.device": "Sesebediswa",
+
+  "hotspot.failed": "Ho kena hotspot ho hlolehile. Ka kopo kena hape.",
+  "hotspot.failedReply": "Ho kena hotspot ho hlolehile: {reply}",
+  "hotspot.loggedOff": "O ntshitswe hotspot.",
+  "hotspot.ended": "Seshene ya hao ya hotspot e fedile.",
+  "hotspot.rejected": "Hotspot e hanne ho kena.",
+
+  "quota.remaining": "{quota} e setseng",
+  "quota.resetsIn": "E qala botjha ka mora {time}",
+  "quota.usedUp": "{quota} e fedile",
+  "quota.usedUpGeneric": "Kabelo e fedile",
+  "quota.resetsOrTopUp":
+    "E qala botjha ka mora {time}, kapa o ka eketsa hona jwale.",
+  "quota.topUpHint": "Eketsa hore o tswele pele ho batlisisa.",
+  "quota.topUp": "EKETSA",
+  "quota.label": "{kind} {reset}",
+  "quota.kind.time": "Nako",
+  "quota.kind.data": "Data",
+  "quota.kind.speed": "Moedi wa lebelo",
+  "quota.reset.daily": "ya letsatsi le letsatsi",
+  "quota.reset.weekly": "ya beke",
+  "quota.reset.monthly": "ya kgwedi",
+  "quota.reset.never": "kaofela",
+
+  "plans.title": "Eketsa data",
+  "plans.empty": "Ha ho diphaketjhe tse fumanehang hona jwale.",
+  "purchase.title": "Netefatsa theko",
+  "purchase.pay": "LEFA HONA JWALE",
+  "purchase.activate": "KENYA TSHEBETSONG",
+  "purchase.via": "ka {provider}",
+  "payment.waiting": "Re emetse tefo",
+  "payment.pendingHint":
+    "Re tla ntjhafatsa tekatekano ya hao hang ha tefo e netefaditswe.",
+  "payment.complete": "Tefo e amohetswe. Data ya hao e eketsitswe.",
+  "payment.failed": "Tefo e hlolehile. Ha o a lefiswa.",
+  "payment.cancelled": "Tefo e hlakotswe. Ha o a lefiswa.",
+
+  "helper.title": "Sesebediswa sa pholoso sa portal",
+  "helper.uamallowed": "Netefatsa hore tsena di lenaneng la hao la uamallowed:",
+  "helper.copied": "Lenane la Walled Garden le kopilwe!",
+
+  "transport.untrustedTitle": "Ho fihlelleha proxy ya setjhaba feela",
+  "transport.untrustedBody":
+    "Dintlha tsa hao di tla feta ho {bridges}, tshebeletso eo re sa e tsamaiseng. E ka bala phasewete ya hao. Tswela pele feela haeba o e tshepa.",
+  "transport.useProxy": "Romela ka proxy leha ho le jwalo",
+  "transport.decline": "O se ke wa romela",
+  "error.network": "Sesebediswa sena ha se a hokahanngwa le netweke.",
+  "error.bridgeExhausted":
+    "Ditsela tsohle tsa phihlello di thibetswe. Ka kopo hlahloba disetting tsa Walled Garden.",
+  "error.untrustedDeclined":
+    "Ha e a romelwa. Leka hape hamorao kapa o kope thuso ho basebetsi.",
+  "error.validation": "Ka kopo lokisa dibaka tse tshwailweng.",
+  "error.throttle": "Boiteko bo bongata haholo. Ka kopo ema o leke hape.",
+  "error.throttleWait": "Boiteko bo bongata haholo. Leka hape kamora {time}.",
+};
+
+export default st;
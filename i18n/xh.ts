@@ -0,0 +1,203 @@
+import { Messages } from "./en";
+
+const xh: Messages = {
+  "language.label": "Ulwimi",
+
+  "common.back": "Buyela umva",
+  "common.continue": "Qhubeka",
+  "common.confirm": "Qinisekisa",
+  "common.dismiss": "Vala",
+  "common.cancel": "Rhoxisa",
+  "common.free": "Simahla",
+  "common.signOut": "Phuma",
+  "common.continueBrowsing": "QHUBEKA UKHANGELA",
+  "common.timeLeft": "Ixesha eliseleyo",
+  "common.minutes": "imizuzu eyi-{count}",
+
+  "field.firstName": "Igama",
+  "field.lastName": "Ifani",
+  "field.phone": "Ifowuni",
+  "field.password": "Igama lokugqitha",
+  "field.newPassword": "Igama lokugqitha elitsha",
+  "field.plan": "Isicwangciso",
+  "field.email": "I-imeyile",
+  "field.emailOptional": "I-imeyile (ayinyanzelekanga)",
+
+  "phone.empty": "Faka inombolo yakho yeselfowuni.",
+  "phone.invalid": "Oko akubonakali njengenombolo yefowuni.",
+  "phone.country": "Iinombolo zelo lizwe azinakubhalisa apha.",
+  "phone.not_mobile":
+    "Nceda usebenzise inombolo yeselfowuni, umz. 082 123 4567.",
+
+  "validation.required": "Le ndawo iyafuneka.",
+  "validation.email": "Faka idilesi ye-imeyile esebenzayo.",
+  "validation.passwordLength": "Sebenzisa ubuncinane oonobumba abayi-{min}.",
+  "validation.passwordNumeric": "Igama lokugqitha alinakuba ngamanani kuphela.",
+  "validation.passwordSimilar":
+    "Igama lokugqitha lifana kakhulu negama lakho okanye inombolo yefowuni.",
+  "validation.passwordCommon": "Elo gama lokugqitha lixhaphake kakhulu.",
+  "strength.label": "Amandla egama lokugqitha",
+  "strength.weak": "Libuthathaka",
+  "strength.fair": "Liphakathi",
+  "strength.good": "Lilungile",
+  "strength.strong": "Lomelele",
+
+  "venue.tagline": "I-WiFi ekhawulezayo kuyo yonke indawo",
+  "venue.registerHeadline": "Yenza i-akhawunti yakho ye-{brand}",
+  "status.tunnel": "I-Shadow Tunnel iyasebenza",
+  "status.node": "I-Resilience Node v5.5",
+  "status.footer": "I-Hyper-Path v5.5 iyasebenza",
+  "status.restoring": "Ibuyisela iseshoni yakho",
+
+  "login.title": "Ngena",
+  "login.submit": "Ngena uze uqhagamshele",
+  "login.newAccount": "I-akhawunti entsha",
+  "login.forgotPassword": "Ulilibele igama lokugqitha?",
+  "login.hijackHint":
+    "I-router ithimba ukungena okukhuselekileyo. Zama ukuvula i-{url} kuqala, emva koko ubuye.",
+
+  "register.submit": "Bhalisa",
+  "register.bridgeStatus": "Imeko yeebhulorho",
+
+  "diagnostics.title": "Uhlolo lwenethiwekhi",
+  "diagnostics.logs": "Iilogi",
+  "diagnostics.copy": "Kopa ingxelo",
+  "diagnostics.qr": "Ikhowudi ye-QR",
+  "diagnostics.qrAlt": "Ingxelo yenkxaso njengekhowudi ye-QR",
+  "diagnostics.checking": "Ijonga iibhulorho…",
+  "detector.healthy": "KULUNGILE",
+  "detector.walledGarden": "AKUVUMELEKANGA",
+  "detector.dns": "I-DNS ISILELE",
+  "detector.unreachable": "AKUFIKELELEKI",
+  "detector.tls": "I-TLS ITHINTELWE",
+  "detector.intercepted": "KUTHINTELWE",
+  "detector.upstream": "ISEVA AYIFUMANEKI",
+  "detector.cors": "I-CORS IVALIWE",
+  "detector.timeout": "IXESHA LIPHELILE",
+  "detector.walledGardenHint":
+    "Akuvumelekanga: le host ayikho kwi-walled garden ye-hotspot. Yongeze kwi-uamallowed.",
+  "detector.dnsHint":
+    "I-DNS isilele: akukho nto iphendulayo, nokuba yi-host yephothali ngokwayo, ngoko amagama akafumaneki okanye i-hotspot ayinalo unxibelelwano lwe-intanethi. Jonga i-DNS ye-hotspot nonxibelelwano lwe-intanethi.",
+  "detector.unreachableHint":
+    "Akufikeleleki: ezinye ii-host ziyaphendula kodwa le ayiphenduli. Isenokuba ayisebenzi, ivaliwe, okanye isatifikethi sayo sitshintshiwe. Zama kwakhona kungekudala, okanye ujonge ukuhluza kwe-hotspot.",
+  "detector.tlsHint":
+    "I-TLS ithintelwe: i-host iyaphendula nge-HTTP eqhelekileyo kodwa unxibelelwano olukhuselekileyo luyasilela, ngoko into ethile kolu thungelwano itshintsha isatifikethi. Cima ukuhlolwa kwe-HTTPS kwi-router okanye kwi-firewall.",
+  "detector.interceptedHint":
+    "Kuthintelwe: into ethile kolu thungelwano iphendule endaweni yeseva. Vula http://neverssl.com ukuze ugqibe ukungena kwe-router, uze uzame kwakhona.",
+  "detector.upstreamHint":
+    "Iseva ayifumaneki: ibhulorho iphendulile kodwa ayikwazanga ukufikelela iseva ye-akhawunti. Enye ibhulorho isenokudlula; kungenjalo zama kwakhona kungekudala.",
+  "detector.corsHint":
+    "I-CORS ivaliwe: iseva iphendulile, kodwa ibhrawuza ilile impendulo. Sebenzisa i-relay okanye enye ibhulorho.",
+  "detector.timeoutHint":
+    "Ixesha liphelile: akukho mpendulo ngexesha. Uthungelwano lusenokuba luxakekile; zama kwakhona kungekudala.",
+
+  "otp.title": "Qinisekisa ifowuni yakho",
+  "otp.sentTo": "Faka ikhowudi eneedijithi ezi-{length} esiyithumele ku",
+  "otp.submit": "Qinisekisa uqhubeke",
+  "otp.resendIn": "Thumela kwakhona emva kwe-{time}",
+  "otp.resend": "Thumela ikhowudi kwakhona",
+  "otp.otherAccount": "Sebenzisa enye i-akhawunti",
+  "otp.digit": "Idijithi {index}",
+  "otp.expired": "Le khowudi iphelelwe lixesha. Nceda ucele entsha.",
+  "otp.locked": "Iikhowudi ezininzi ezingachanekanga. Nceda ucele entsha.",
+  "otp.attemptsLeft": "{message} Amalinge aseleyo: {count}.",
+
+  "email.title": "Jonga i-imeyile yakho",
+  "email.sentTo": "Sithumele ikhonkco lokuqinisekisa ku",
+  "email.sentGeneric":
+    "Sithumele ikhonkco lokuqinisekisa kwidilesi yakho ye-imeyile.",
+  "email.hint": "Vula ikhonkco, emva koko ubuye uqhubeke.",
+  "email.confirmed": "Ndiqinisekisile",
+  "email.notYet":
+    "I-imeyile yakho ayikaqinisekiswa. Vula ikhonkco esikuthumele lona.",
+  "email.resendIn": "Thumela i-imeyile kwakhona emva kwe-{time}",
+  "email.resend": "Thumela i-imeyile kwakhona",
+  "email.resent": "Siphinde sathumela ikhonkco.",
+
+  "reset.title": "Seta kwakhona igama lokugqitha",
+  "reset.requestHint":
+    "Siza kuthumela ikhowudi yokuseta kwakhona kwifowuni yakho nge-SMS.",
+  "reset.passwordHint": "Khetha igama lokugqitha elitsha.",
+  "reset.sendCode": "Thumela ikhowudi",
+  "reset.submit": "Seta igama lokugqitha elitsha",
+  "reset.done":
+    "Igama lokugqitha lihlaziyiwe. Ngena ngegama lokugqitha elitsha.",
+
+  "session.expired": "Iseshoni yakho iphelelwe lixesha. Nceda ungene kwakhona.",
+  "session.signedOut": "Uphumile.",
+  "session.passwordMismatch": "Amagama okugqitha awafani.",
+
+  "account.title": "I-akhawunti iyasebenza",
+  "account.connect": "QHAGAMSHELA KWI-INTANETHI",
+  "account.buyMore": "Thenga idatha eyongezelelweyo",
+
+  "connected.title": "Ukwi-intanethi",
+  "connected.live": "Iseshoni ephilayo",
+  "connected.sessionTime": "Ixesha leseshoni",
+  "connected.downloaded": "Okukhutshelweyo",
+  "connected.uploaded": "Okunyuselweyo",
+  "connected.idleTimeout": "Ixesha lokungasebenzi",
+  "connected.logOff": "Phuma kwi-hotspot",
+  "connected.already": "Sele ukwi-intanethi",
+  "connected.success": "Uqhagamshelwe",
+  "connected.activeSession": "Esi sixhobo sineseshoni esebenzayo",
+  "connected.ip": "Idilesi ye-IP",
+  "connected.device": "Isixhobo",
+
+  "hotspot.failed": "Ukungena kwi-hotspot kusilele. Nceda ungene kwakhona.",
+  "hotspot.failedReply": "Ukungena kwi-hotspot kusilele: {reply}",
+  "hotspot.loggedOff": "Ukhutshiwe kwi-hotspot.",
+  "hotspot.ended": "Iseshoni yakho ye-hotspot iphelile.",
+  "hotspot.rejected": "I-hotspot ikwalile ukungena.",
+
+  "quota.remaining": "{quota} eseleyo",
+  "quota.resetsIn": "Iqala kwakhona emva kwe-{time}",
+  "quota.usedUp": "{quota} iphelile",
+  "quota.usedUpGeneric": "Isabelo siphelile",
+  "quota.resetsOrTopUp":
+    "Iqala kwakhona emva kwe-{time}, okanye ungongeza ngoku.",
+  "quota.topUpHint": "Yongeza ukuze uqhubeke ukhangela.",
+  "quota.topUp": "YONGEZA",
+  "quota.label": "{kind} {reset}",
+  "quota.kind.time": "Ixesha",
+  "quota.kind.data": "Idatha",
+  "quota.kind.speed": "Umda wesantya",
+  "quota.reset.daily": "yemihla ngemihla",
+  "quota.reset.weekly": "yeveki",
+  "quota.reset.monthly": "yenyanga",
+  "quota.reset.never": "iyonke",
+
+  "plans.title": "Yongeza idatha",
+  "plans.empty": "Akukho zipakethi zifumanekayo okwangoku.",
+  "purchase.title": "Qinisekisa ukuthenga",
+  "purchase.pay": "HLAWULA NGOKU",
+  "purchase.activate": "VULA",
+  "purchase.via": "nge-{provider}",
+  "payment.waiting": "Silinde intlawulo",
+  "payment.pendingHint":
+    "Siza kuhlaziya ibhalansi yakho xa intlawulo iqinisekisiwe.",
+  "payment.complete": "Intlawulo ifunyenwe. Idatha yakho yongeziwe.",
+  "payment.failed": "Intlawulo isilele. Awuhlawuliswanga.",
+  "payment.cancelled": "Intlawulo irhoxisiwe. Awuhlawuliswanga.",
+
+  "helper.title": "Ikhithi yokuhlangula i-portal",
+  "helper.uamallowed": "Qinisekisa ukuba ezi zikuluhlu lwakho lwe-uamallowed:",
+  "helper.copied": "Uluhlu lwe-Walled Garden lukhutshelwe!",
+
+  "transport.untrustedTitle": "Kufumaneka iproksi yoluntu kuphela",
+  "transport.untrustedBody":
+    "Iinkcukacha zakho ziza kudlula kwi-{bridges}, inkonzo esingayiphathiyo. Inokufunda igama lakho lokugqitha. Qhubeka kuphela ukuba uyayithemba.",
+  "transport.useProxy": "Thumela ngeproksi nangona kunjalo",
+  "transport.decline": "Musa ukuthumela",
+  "error.network": "Esi sixhobo asiqhagamshelwanga kwinethiwekhi.",
+  "error.bridgeExhausted":
+    "Zonke iindlela zokufikelela zivaliwe. Nceda ujonge iisetingi ze-Walled Garden.",
+  "error.untrustedDeclined":
+    "Akuthunyelwanga. Zama kwakhona emva kwexesha okanye ucele uncedo kubasebenzi.",
+  "error.validation": "Nceda ulungise iindawo eziqaqambisiweyo.",
+  "error.throttle": "Iinzame zininzi kakhulu. Nceda ulinde uze uzame kwakhona.",
+  "error.throttleWait":
+    "Iinzame zininzi kakhulu. Zama kwakhona emva kwe-{time}.",
+};
+
+export default xh;
@@ -0,0 +1,202 @@
+import { Messages } from "./en";
+
+const zu: Messages = {
+  "language.label": "Ulimi",
+
+  "common.back": "Emuva",
+  "common.continue": "Qhubeka",
+  "common.confirm": "Qinisekisa",
+  "common.dismiss": "Vala",
+  "common.cancel": "Khansela",
+  "common.free": "Mahhala",
+  "common.signOut": "Phuma",
+  "common.continueBrowsing": "QHUBEKA UPHEQULULA",
+  "common.timeLeft": "Isikhathi esisele",
+  "common.minutes": "imizuzu engu-{count}",
+
+  "field.firstName": "Igama",
+  "field.lastName": "Isibongo",
+  "field.phone": "Ifoni",
+  "field.password": "Iphasiwedi",
+  "field.newPassword": "Iphasiwedi entsha",
+  "field.plan": "Uhlelo",
+  "field.email": "I-imeyili",
+  "field.emailOptional": "I-imeyili (akuphoqelekile)",
+
+  "phone.empty": "Faka inombolo yakho yeselula.",
+  "phone.invalid": "Lokho akubukeki njengenombolo yefoni.",
+  "phone.country": "Izinombolo zalelo zwe azikwazi ukubhalisa lapha.",
+  "phone.not_mobile": "Sicela usebenzise inombolo yeselula, isb. 082 123 4567.",
+
+  "validation.required": "Le ndawo iyadingeka.",
+  "validation.email": "Faka ikheli le-imeyili elivumelekile.",
+  "validation.passwordLength": "Sebenzisa okungenani izinhlamvu ezingu-{min}.",
+  "validation.passwordNumeric": "Iphasiwedi ayikwazi ukuba izinombolo kuphela.",
+  "validation.passwordSimilar":
+    "Iphasiwedi ifana kakhulu negama lakho noma inombolo yefoni.",
+  "validation.passwordCommon": "Leyo phasiwedi ijwayeleke kakhulu.",
+  "strength.label": "Amandla ephasiwedi",
+  "strength.weak": "Ibuthakathaka",
+  "strength.fair": "Iphakathi",
+  "strength.good": "Inhle",
+  "strength.strong": "Inamandla",
+
+  "venue.tagline": "I-WiFi esheshayo yonke indawo",
+  "venue.registerHeadline": "Vula i-akhawunti yakho ye-{brand}",
+  "status.tunnel": "I-Shadow Tunnel iyasebenza",
+  "status.node": "I-Resilience Node v5.5",
+  "status.footer": "I-Hyper-Path v5.5 iyasebenza",
+  "status.restoring": "Ibuyisela iseshini yakho",
+
+  "login.title": "Ngena",
+  "login.submit": "Ngena futhi uxhume",
+  "login.newAccount": "I-akhawunti entsha",
+  "login.forgotPassword": "Ukhohlwe iphasiwedi?",
+  "login.hijackHint":
+    "I-router ivimba ukungena okuvikelekile. Zama ukuvula u-{url} kuqala, bese ubuya.",
+
+  "register.submit": "Bhalisa",
+  "register.bridgeStatus": "Isimo samabhuloho",
+
+  "diagnostics.title": "Ukuhlolwa kwenethiwekhi",
+  "diagnostics.logs": "Amalogi",
+  "diagnostics.copy": "Kopisha umbiko",
+  "diagnostics.qr": "Ikhodi ye-QR",
+  "diagnostics.qrAlt": "Umbiko wosizo njengekhodi ye-QR",
+  "diagnostics.checking": "Ihlola amabhuloho…",
+  "detector.healthy": "KULUNGILE",
+  "detector.walledGarden": "AKUVUMELEKILE",
+  "detector.dns": "I-DNS IHLULEKILE",
+  "detector.unreachable": "AKUFINYELELEKI",
+  "detector.tls": "I-TLS ITHATHWE PHAKATHI",
+  "detector.intercepted": "KUTHATHWE PHAKATHI",
+  "detector.upstream": "ISEVA AYITHOLAKALI",
+  "detector.cors": "I-CORS IVINJIWE",
+  "detector.timeout": "ISIKHATHI SIPHELILE",
+  "detector.walledGardenHint":
+    "Akuvumelekile: le host ayikho ku-walled garden ye-hotspot. Yengeze ku-uamallowed.",
+  "detector.dnsHint":
+    "I-DNS ihlulekile: akukho okuphendulayo, ngisho ne-host yephothali uqobo, ngakho amagama awatholakali noma i-hotspot ayinalo uxhumano lwe-inthanethi. Hlola i-DNS ye-hotspot noxhumano lwe-inthanethi.",
+  "detector.unreachableHint":
+    "Akufinyeleleki: amanye ama-host ayaphendula kodwa le ayiphenduli. Ingase ingasebenzi, ivinjiwe, noma isitifiketi sayo sishintshiwe. Zama futhi maduze, noma uhlole ukuhlunga kwe-hotspot.",
+  "detector.tlsHint":
+    "I-TLS ithathwe phakathi: i-host iyaphendula nge-HTTP evamile kodwa uxhumano oluvikelekile luyehluleka, ngakho okuthile kule nethiwekhi kushintsha isitifiketi. Vala ukuhlolwa kwe-HTTPS ku-router noma ku-firewall.",
+  "detector.interceptedHint":
+    "Kuthathwe phakathi: okuthile kule nethiwekhi kuphendule esikhundleni seseva. Vula http://neverssl.com ukuze uqedele ukungena kwe-router, bese uzama futhi.",
+  "detector.upstreamHint":
+    "Iseva ayitholakali: ibhuloho liphendulile kodwa alikwazanga ukufinyelela iseva ye-akhawunti. Elinye ibhuloho lingase lisadlula; uma kungenjalo zama futhi maduze.",
+  "detector.corsHint":
+    "I-CORS ivinjiwe: iseva iphendulile, kodwa isiphequluli senqabe impendulo. Sebenzisa i-relay noma elinye ibhuloho.",
+  "detector.timeoutHint":
+    "Isikhathi siphelile: ayikho impendulo ngesikhathi. Inethiwekhi ingase igcwele; zama futhi maduze.",
+
+  "otp.title": "Qinisekisa ifoni yakho",
+  "otp.sentTo": "Faka ikhodi enamadijithi angu-{length} esiyithumele ku",
+  "otp.submit": "Qinisekisa uqhubeke",
+  "otp.resendIn": "Thumela futhi ngemuva kuka-{time}",
+  "otp.resend": "Thumela ikhodi futhi",
+  "otp.otherAccount": "Sebenzisa enye i-akhawunti",
+  "otp.digit": "Idijithi {index}",
+  "otp.expired": "Le khodi iphelelwe yisikhathi. Sicela ucele entsha.",
+  "otp.locked": "Amakhodi amaningi angalungile. Sicela ucele entsha.",
+  "otp.attemptsLeft": "{message} Imizamo esele: {count}.",
+
+  "email.title": "Hlola i-imeyili yakho",
+  "email.sentTo": "Sithumele isixhumanisi sokuqinisekisa ku",
+  "email.sentGeneric":
+    "Sithumele isixhumanisi sokuqinisekisa ekhelini lakho le-imeyili.",
+  "email.hint": "Vula isixhumanisi, bese ubuya uqhubeke.",
+  "email.confirmed": "Sengiqinisekisile",
+  "email.notYet":
+    "I-imeyili yakho ayikaqinisekiswa. Vula isixhumanisi esikuthumelele sona.",
+  "email.resendIn": "Thumela i-imeyili futhi ngemuva kuka-{time}",
+  "email.resend": "Thumela i-imeyili futhi",
+  "email.resent": "Sesiphinde sathumela isixhumanisi.",
+
+  "reset.title": "Setha kabusha iphasiwedi",
+  "reset.requestHint":
+    "Sizothumela ikhodi yokusetha kabusha efonini yakho nge-SMS.",
+  "reset.passwordHint": "Khetha iphasiwedi entsha.",
+  "reset.sendCode": "Thumela ikhodi",
+  "reset.submit": "Setha iphasiwedi entsha",
+  "reset.done": "Iphasiwedi ibuyekeziwe. Ngena ngephasiwedi yakho entsha.",
+
+  "session.expired":
+    "Iseshini yakho iphelelwe yisikhathi. Sicela ungene futhi.",
+  "session.signedOut": "Usuphumile.",
+  "session.passwordMismatch": "Amaphasiwedi awafani.",
+
+  "account.title": "I-akhawunti iyasebenza",
+  "account.connect": "XHUMA KU-INTHANETHI",
+  "account.buyMore": "Thenga idatha eyengeziwe",
+
+  "connected.title": "Usu-online",
+  "connected.live": "Iseshini ebukhoma",
+  "connected.sessionTime": "Isikhathi seseshini",
+  "connected.downloaded": "Okulandiwe",
+  "connected.uploaded": "Okulayishiwe",
+  "connected.idleTimeout": "Isikhathi sokungenzi lutho",
+  "connected.logOff": "Phuma ku-hotspot",
+  "connected.already": "Usuvele u-online",
+  "connected.success": "Usuxhumekile",
+  "connected.activeSession": "Le divayisi ineseshini esebenzayo",
+  "connected.ip": "Ikheli le-IP",
+  "connected.device": "Idivayisi",
+
+  "hotspot.failed": "Ukungena ku-hotspot kuhlulekile. Sicela ungene futhi.",
+  "hotspot.failedReply": "Ukungena ku-hotspot kuhlulekile: {reply}",
+  "hotspot.loggedOff": "Ukhishiwe ku-hotspot.",
+  "hotspot.ended": "Iseshini yakho ye-hotspot iphelile.",
+  "hotspot.rejected": "I-hotspot yenqabile ukungena.",
+
+  "quota.remaining": "{quota} esele",
+  "quota.resetsIn": "Iqala kabusha ngemuva kuka-{time}",
+  "quota.usedUp": "{quota} iphelile",
+  "quota.usedUpGeneric": "Umkhawulo uphelile",
+  "quota.resetsOrTopUp":
+    "Iqala kabusha ngemuva kuka-{time}, noma ungathenga eyengeziwe manje.",
+  "quota.topUpHint": "Thenga eyengeziwe ukuze uqhubeke uphequlula.",
+  "quota.topUp": "THENGA EYENGEZIWE",
+  "quota.label": "{kind} {reset}",
+  "quota.kind.time": "Isikhathi",
+  "quota.kind.data": "Idatha",
+  "quota.kind.speed": "Umkhawulo wejubane",
+  "quota.reset.daily": "yansuku zonke",
+  "quota.reset.weekly": "yamasonto onke",
+  "quota.reset.monthly": "yanyanga zonke",
+  "quota.reset.never": "iyonke",
+
+  "plans.title": "Thenga idatha",
+  "plans.empty": "Awekho amaphakheji atholakalayo okwamanje.",
+  "purchase.title": "Qinisekisa ukuthenga",
+  "purchase.pay": "KHOKHA MANJE",
+  "purchase.activate": "VULA",
+  "purchase.via": "nge-{provider}",
+  "payment.waiting": "Silinde inkokhelo",
+  "payment.pendingHint":
+    "Sizobuyekeza ibhalansi yakho uma inkokhelo isiqinisekisiwe.",
+  "payment.complete": "Inkokhelo yamukelwe. Idatha yakho yengeziwe.",
+  "payment.failed": "Inkokhelo ihlulekile. Awukhokhiswanga.",
+  "payment.cancelled": "Inkokhelo ikhanseliwe. Awukhokhiswanga.",
+
+  "helper.title": "Ikhithi yokusiza i-portal",
+  "helper.uamallowed": "Qiniseka ukuthi lokhu kukuhlu lwakho lwe-uamallowed:",
+  "helper.copied": "Uhlu lwe-Walled Garden lukopishiwe!",
+
+  "transport.untrustedTitle": "Kutholakala iphroksi yomphakathi kuphela",
+  "transport.untrustedBody":
+    "Imininingwane yakho izodlula ku-{bridges}, isevisi esingayiphethe. Ingafunda iphasiwedi yakho. Qhubeka kuphela uma uyethemba.",
+  "transport.useProxy": "Thumela ngephroksi noma kunjalo",
+  "transport.decline": "Ungathumeli",
+  "error.network": "Le divayisi ayixhunyiwe kunethiwekhi.",
+  "error.bridgeExhausted":
+    "Zonke izindlela zokufinyelela zivinjiwe. Sicela uhlole izilungiselelo ze-Walled Garden.",
+  "error.untrustedDeclined":
+    "Akuthunyelwe. Zama futhi emuva kwesikhathi noma ucele usizo kubasebenzi.",
+  "error.validation": "Sicela ulungise izinkambu ezigqamisiwe.",
+  "error.throttle": "Imizamo iminingi kakhulu. Sicela ulinde bese uzama futhi.",
+  "error.throttleWait":
+    "Imizamo iminingi kakhulu. Zama futhi emva kuka-{time}.",
+};
+
+export default zu;
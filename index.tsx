@@ -1,7 +1,10 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { I18nProvider } from './i18n';
+import { loadVenueConfig } from './services/config';
+import { parseHotspotContext } from './services/hotspot';
+import { registerServiceWorker } from './services/serviceWorker';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +12,16 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+// Venue config decides the API organization and theme, so it has to be in
+// place before anything renders or calls OpenWISP
+loadVenueConfig(parseHotspotContext()).then(() => {
+  root.render(
+    <React.StrictMode>
+      <I18nProvider>
+        <App />
+      </I18nProvider>
+    </React.StrictMode>
+  );
+  registerServiceWorker();
+});
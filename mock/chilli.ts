@@ -0,0 +1,106 @@
+import { createHash } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { applyFailure, state } from "./state.js";
+
+/**
+ * CHAP check as Chilli does it (no uamsecret): md5(0x00 + password +
+ * challenge). The portal may log on with the account password or the
+ * RADIUS token, so both are accepted.
+ */
+const chapMatches = (username: string, response: string): boolean => {
+  const user = state.users.get(username);
+  if (!user) return false;
+  return [user.password, user.radiusToken].some(
+    (password) =>
+      createHash("md5")
+        .update(Buffer.from([0]))
+        .update(password)
+        .update(Buffer.from(state.challenge, "hex"))
+        .digest("hex") === response,
+  );
+};
+
+const logon = (params: URLSearchParams): string | null => {
+  const username = params.get("username") || "";
+  if (state.failures.get("logon") === "reject") return "Rejected (mock).";
+  const response = params.get("response");
+  const ok = response
+    ? chapMatches(username, response)
+    : state.users.has(username);
+  if (!ok) return "Authentication failed.";
+  state.session = { username, startTime: Math.floor(Date.now() / 1000) };
+  return null;
+};
+
+const status = (message?: string) => {
+  const { session } = state;
+  if (!session) {
+    return {
+      version: "1.0",
+      clientState: 0,
+      challenge: state.challenge,
+      message,
+    };
+  }
+  const elapsed = Math.floor(Date.now() / 1000) - session.startTime;
+  return {
+    version: "1.0",
+    clientState: 1,
+    session: {
+      sessionId: "mock-session",
+      userName: session.username,
+      startTime: session.startTime,
+      sessionTimeout: 10800,
+      idleTimeout: 900,
+    },
+    accounting: {
+      sessionTime: elapsed,
+      idleTime: 0,
+      inputOctets: elapsed * 50_000,
+      outputOctets: elapsed * 5_000,
+    },
+  };
+};
+
+/**
+ * FAKE CHILLI: The JSONP interface (/json/status, /json/logon,
+ * /json/logoff) and the form /logon fallback, for one mock device.
+ */
+export const handleChilli = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+) => {
+  const url = new URL(req.url || "/", "http://mock.local");
+  const params = url.searchParams;
+
+  if (url.pathname === "/logon") {
+    if (await applyFailure("logon", res)) return;
+    const error = logon(params);
+    const userurl = params.get("userurl");
+    if (!error && userurl) {
+      res.writeHead(302, { Location: userurl });
+      res.end();
+      return;
+    }
+    res.writeHead(error ? 403 : 200, { "Content-Type": "text/html" });
+    res.end(`<html><body><h1>${error || "Connected"}</h1></body></html>`);
+    return;
+  }
+
+  const action = /^\/json\/(status|logon|logoff)$/.exec(url.pathname)?.[1];
+  const callback = params.get("callback") || "";
+  if (!action || !/^[\w$]+$/.test(callback)) {
+    res.writeHead(404);
+    res.end();
+    return;
+  }
+  if (action === "logon" && (await applyFailure("logon", res))) return;
+
+  let message: string | undefined;
+  if (action === "logon" && !state.session)
+    message = logon(params) || undefined;
+  if (action === "logoff") state.session = null;
+
+  res.writeHead(200, { "Content-Type": "application/javascript" });
+  res.end(`${callback}(${JSON.stringify(status(message))});`);
+};
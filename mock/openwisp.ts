@@ -0,0 +1,252 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import {
+  addUser,
+  applyFailure,
+  newKey,
+  OTP_CODE,
+  readJson,
+  sendJson,
+  state,
+} from "./state.js";
+
+const GB = 1024 ** 3;
+
+// Pricing id matches DEFAULT_PLAN_UUID in constants.ts
+const PLANS = [
+  {
+    id: "148c5cf9-1c6c-45a4-9872-303cebe86f92",
+    plan: "Free",
+    pricing: "Daily",
+    plan_description: "300 MB per day",
+    price: "0.00",
+    currency: "ZAR",
+    requires_payment: false,
+  },
+];
+
+const usageChecks = () => {
+  if (state.quota === "unlimited") return [];
+  const exhausted = state.quota === "exhausted";
+  return [
+    {
+      attribute: "Max-Daily-Session",
+      op: ":=",
+      value: 10800,
+      result: exhausted ? 10800 : 3600,
+      type: "seconds",
+      reset: "daily",
+    },
+    {
+      attribute: "Max-Total-Octets",
+      op: ":=",
+      value: 3 * GB,
+      result: exhausted ? 3 * GB : GB,
+      type: "bytes",
+      reset: "daily",
+    },
+  ];
+};
+
+const tokenReply = (username: string, key: string) => {
+  const user = state.users.get(username)!;
+  return {
+    key,
+    radius_user_token: user.radiusToken,
+    is_active: true,
+    is_verified: user.verified,
+    method: user.method,
+    username,
+  };
+};
+
+const bearerUser = (req: IncomingMessage): string | null => {
+  const match = /^Bearer (\w+)$/.exec(req.headers.authorization || "");
+  return (match && state.tokens.get(match[1])) || null;
+};
+
+type Handler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  user: string | null,
+) => Promise<void>;
+
+/**
+ * ROUTES: The account and subscription endpoints the portal calls, keyed
+ * by the name used in MOCK_FAIL. Authenticated routes get the bearer's
+ * username, or a 401 before the handler runs.
+ */
+const ROUTES: Record<
+  string,
+  { method: string; path: RegExp; auth?: boolean; handle: Handler }
+> = {
+  register: {
+    method: "POST",
+    path: /\/account\/register\/$/,
+    handle: async (req, res) => {
+      const body = await readJson(req);
+      const username = body.username || body.phone_number;
+      if (!username) {
+        sendJson(res, 400, { username: ["This field is required."] });
+      } else if (state.users.has(username)) {
+        sendJson(res, 400, {
+          username: ["A user with that username already exists."],
+        });
+      } else if (!body.password1 || body.password1 !== body.password2) {
+        sendJson(res, 400, {
+          password2: ["The two password fields didn't match."],
+        });
+      } else {
+        addUser(username, body.password1, false, body.first_name);
+        const key = newKey();
+        state.tokens.set(key, username);
+        sendJson(res, 201, { key });
+      }
+    },
+  },
+  token: {
+    method: "POST",
+    path: /\/account\/token\/$/,
+    handle: async (req, res) => {
+      const { username, password } = await readJson(req);
+      const user = state.users.get(username);
+      if (!user || user.password !== password) {
+        sendJson(res, 400, {
+          non_field_errors: ["Unable to log in with provided credentials."],
+        });
+        return;
+      }
+      const key = newKey();
+      state.tokens.set(key, username);
+      sendJson(res, 200, tokenReply(username, key));
+    },
+  },
+  "token/validate": {
+    method: "POST",
+    path: /\/account\/token\/validate\/$/,
+    handle: async (req, res) => {
+      const { token } = await readJson(req);
+      const username = state.tokens.get(token);
+      if (!username) sendJson(res, 401, { detail: "Invalid token." });
+      else sendJson(res, 200, tokenReply(username, token));
+    },
+  },
+  usage: {
+    method: "GET",
+    path: /\/account\/usage\/$/,
+    auth: true,
+    handle: async (_req, res) => {
+      sendJson(res, 200, { checks: usageChecks() });
+    },
+  },
+  "phone/token": {
+    method: "POST",
+    path: /\/account\/phone\/token\/$/,
+    auth: true,
+    handle: async (_req, res, user) => {
+      console.log(`  SMS to ${user}: ${OTP_CODE}`);
+      sendJson(res, 201, {});
+    },
+  },
+  "phone/verify": {
+    method: "POST",
+    path: /\/account\/phone\/verify\/$/,
+    auth: true,
+    handle: async (req, res, user) => {
+      const { code } = await readJson(req);
+      if (code !== OTP_CODE) {
+        sendJson(res, 400, { code: ["Invalid code."] });
+        return;
+      }
+      state.users.get(user!)!.verified = true;
+      sendJson(res, 200, { status: "verified" });
+    },
+  },
+  "password/reset": {
+    method: "POST",
+    path: /\/account\/password\/reset\/$/,
+    handle: async (req, res) => {
+      const { input } = await readJson(req);
+      if (!state.users.has(input)) {
+        sendJson(res, 404, { detail: "Not found." });
+        return;
+      }
+      state.pendingResets.add(input);
+      console.log(`  SMS to ${input}: ${OTP_CODE}`);
+      sendJson(res, 200, { detail: "Password reset code has been sent." });
+    },
+  },
+  // The backend extension the portal relies on; see README
+  "password/reset/verify": {
+    method: "POST",
+    path: /\/account\/password\/reset\/verify\/$/,
+    handle: async (req, res) => {
+      const { phone_number, code } = await readJson(req);
+      if (!state.pendingResets.has(phone_number) || code !== OTP_CODE) {
+        sendJson(res, 400, { code: ["Invalid code."] });
+        return;
+      }
+      state.pendingResets.delete(phone_number);
+      const token = newKey();
+      state.resetTokens.set(token, phone_number);
+      sendJson(res, 200, {
+        uid: Buffer.from(phone_number).toString("base64url"),
+        token,
+      });
+    },
+  },
+  "password/reset/confirm": {
+    method: "POST",
+    path: /\/account\/password\/reset\/confirm\/$/,
+    handle: async (req, res) => {
+      const body = await readJson(req);
+      const username = state.resetTokens.get(body.token);
+      if (
+        !username ||
+        Buffer.from(username).toString("base64url") !== body.uid
+      ) {
+        sendJson(res, 400, { token: ["Invalid value"] });
+      } else if (
+        !body.new_password1 ||
+        body.new_password1 !== body.new_password2
+      ) {
+        sendJson(res, 400, {
+          new_password2: ["The two password fields didn't match."],
+        });
+      } else {
+        state.resetTokens.delete(body.token);
+        state.users.get(username)!.password = body.new_password1;
+        sendJson(res, 200, {
+          detail: "Password has been reset with the new password.",
+        });
+      }
+    },
+  },
+  plan: {
+    method: "GET",
+    path: /\/subscriptions\/organization\/[\w-]+\/plan\/$/,
+    handle: async (_req, res) => sendJson(res, 200, PLANS),
+  },
+};
+
+export const handleOpenWisp = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+) => {
+  const { pathname } = new URL(req.url || "/", "http://mock.local");
+  const match = Object.entries(ROUTES).find(
+    ([, route]) => route.method === req.method && route.path.test(pathname),
+  );
+  if (!match) {
+    sendJson(res, 404, { detail: "Not found." });
+    return;
+  }
+  const [name, route] = match;
+  if (await applyFailure(name, res)) return;
+
+  const user = bearerUser(req);
+  if (route.auth && !user) {
+    sendJson(res, 401, { detail: "Invalid token." });
+    return;
+  }
+  await route.handle(req, res, user);
+};
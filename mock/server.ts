@@ -0,0 +1,81 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { handleChilli } from "./chilli.js";
+import { handleOpenWisp } from "./openwisp.js";
+import {
+  parseFailures,
+  Quota,
+  readJson,
+  resetState,
+  sendJson,
+  state,
+} from "./state.js";
+
+/**
+ * MOCK HOTSPOT: A stand-in OpenWISP and Chilli for running the portal on a
+ * laptop.
+ *
+ *   MOCK_API_PORT      OpenWISP port (8001)
+ *   MOCK_CHILLI_PORT   Chilli port (3990)
+ *   MOCK_FAIL          failures, e.g. "usage=500,token=drop,logon=reject"
+ *   MOCK_QUOTA         remaining | exhausted | unlimited (remaining)
+ *   MOCK_OTP           the SMS code every phone receives (123456)
+ *   MOCK_USER, MOCK_PASSWORD   the seeded, verified account
+ *
+ * POST /__mock on the OpenWISP port changes things while running:
+ *   {"fail": "usage=500", "quota": "exhausted", "reset": true}
+ */
+const env = process.env;
+const API_PORT = Number(env.MOCK_API_PORT) || 8001;
+const CHILLI_PORT = Number(env.MOCK_CHILLI_PORT) || 3990;
+const QUOTAS: Quota[] = ["remaining", "exhausted", "unlimited"];
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Authorization, Content-Type, Accept-Language",
+};
+
+const control = async (req: IncomingMessage, res: ServerResponse) => {
+  const body = await readJson(req);
+  if (body.reset) resetState();
+  if (typeof body.fail === "string") state.failures = parseFailures(body.fail);
+  if (QUOTAS.includes(body.quota)) state.quota = body.quota;
+  sendJson(res, 200, {
+    fail: Object.fromEntries(state.failures),
+    quota: state.quota,
+    users: [...state.users.keys()],
+  });
+};
+
+const serve = (
+  port: number,
+  name: string,
+  handler: (req: IncomingMessage, res: ServerResponse) => Promise<void>,
+) =>
+  createServer((req, res) => {
+    console.log(`${name} ${req.method} ${req.url?.split("?")[0]}`);
+    Object.entries(CORS_HEADERS).forEach(([key, value]) =>
+      res.setHeader(key, value),
+    );
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    handler(req, res).catch((err) => {
+      console.error(`${name} error:`, err.message);
+      if (!res.headersSent) sendJson(res, 500, { detail: "Mock error." });
+    });
+  }).listen(port, () => console.log(`${name} mock on :${port}`));
+
+resetState();
+state.failures = parseFailures(env.MOCK_FAIL || "");
+if (QUOTAS.includes(env.MOCK_QUOTA as Quota)) {
+  state.quota = env.MOCK_QUOTA as Quota;
+}
+
+serve(API_PORT, "OpenWISP", (req, res) =>
+  req.url?.startsWith("/__mock") ? control(req, res) : handleOpenWisp(req, res),
+);
+serve(CHILLI_PORT, "Chilli", handleChilli);
@@ -0,0 +1,128 @@
+import { randomBytes } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+
+export interface MockUser {
+  password: string;
+  radiusToken: string;
+  firstName: string;
+  verified: boolean;
+  method: string;
+}
+
+export type Quota = "remaining" | "exhausted" | "unlimited";
+
+/**
+ * FAILURES: Route name -> what to do instead of answering. A status code
+ * returns that status with a JSON error; `drop` closes the socket (the
+ * bridge fails); `hijack` answers 200 with a captive HTML page; `slow`
+ * answers after 30s; `reject` makes Chilli refuse the logon.
+ */
+export type Failure = number | "drop" | "hijack" | "slow" | "reject";
+
+export const OTP_CODE = process.env.MOCK_OTP || "123456";
+
+export const state = {
+  users: new Map<string, MockUser>(),
+  tokens: new Map<string, string>(),
+  // Phone numbers with a reset code out, and the tokens issued for them
+  pendingResets: new Set<string>(),
+  resetTokens: new Map<string, string>(),
+  failures: new Map<string, Failure>(),
+  quota: "remaining" as Quota,
+  // The single mock device's Chilli session
+  session: null as { username: string; startTime: number } | null,
+  challenge: randomBytes(16).toString("hex"),
+};
+
+export const newKey = () => randomBytes(20).toString("hex");
+
+export const parseFailures = (raw: string): Map<string, Failure> =>
+  new Map(
+    raw
+      .split(",")
+      .map((entry) => entry.trim().split("="))
+      .filter(([route, mode]) => route && mode)
+      .map(([route, mode]): [string, Failure] => [
+        route,
+        /^\d+$/.test(mode) ? Number(mode) : (mode as Failure),
+      ]),
+  );
+
+export const addUser = (
+  username: string,
+  password: string,
+  verified: boolean,
+  firstName = "Test",
+) => {
+  state.users.set(username, {
+    password,
+    radiusToken: newKey(),
+    firstName,
+    verified,
+    method: "mobile_phone",
+  });
+};
+
+// Seed account: verified, so login -> usage -> connect works out of the box
+export const resetState = () => {
+  state.users.clear();
+  state.tokens.clear();
+  state.pendingResets.clear();
+  state.resetTokens.clear();
+  state.session = null;
+  addUser(
+    process.env.MOCK_USER || "+27821234567",
+    process.env.MOCK_PASSWORD || "mock-pass-2024",
+    true,
+  );
+};
+
+export const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+export const readJson = async (
+  req: IncomingMessage,
+): Promise<Record<string, any>> => {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Applies the configured failure for a route. Returns true when the
+ * request has been dealt with and the real handler must not run.
+ */
+export const applyFailure = async (
+  route: string,
+  res: ServerResponse,
+): Promise<boolean> => {
+  const failure = state.failures.get(route);
+  if (failure === undefined || failure === "reject") return false;
+  console.log(`  ! ${route}: ${failure}`);
+  if (failure === "drop") {
+    res.socket?.destroy();
+    return true;
+  }
+  if (failure === "slow") {
+    await new Promise((resolve) => setTimeout(resolve, 30_000));
+    return false;
+  }
+  if (failure === "hijack") {
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end("<html><body><h1>Please log in to continue</h1></body></html>");
+    return true;
+  }
+  sendJson(res, failure, { detail: `Mock failure (${failure}).` });
+  return true;
+};
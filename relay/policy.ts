@@ -0,0 +1,91 @@
+/**
+ * ALLOW-LIST: The only OpenWISP endpoints the portal calls (see
+ * services/api.ts). Anything else is refused before it leaves the relay, so
+ * the relay cannot be used as an open proxy.
+ */
+const ORG = "[\\w-]+";
+const ACCOUNT = `/api/v1/radius/organization/${ORG}/account/`;
+const SUBSCRIPTIONS = `/api/v1/subscriptions/organization/${ORG}/`;
+
+const ALLOWED_ROUTES: { method: string; path: RegExp }[] = [
+  { method: "POST", path: new RegExp(`^${ACCOUNT}register/$`) },
+  { method: "POST", path: new RegExp(`^${ACCOUNT}token/$`) },
+  { method: "POST", path: new RegExp(`^${ACCOUNT}token/validate/$`) },
+  { method: "GET", path: new RegExp(`^${ACCOUNT}usage/$`) },
+  { method: "POST", path: new RegExp(`^${ACCOUNT}phone/token/$`) },
+  { method: "POST", path: new RegExp(`^${ACCOUNT}phone/verify/$`) },
+  { method: "POST", path: new RegExp(`^${ACCOUNT}email/resend/$`) },
+  { method: "POST", path: new RegExp(`^${ACCOUNT}password/reset/$`) },
+  { method: "POST", path: new RegExp(`^${ACCOUNT}password/reset/verify/$`) },
+  { method: "POST", path: new RegExp(`^${ACCOUNT}password/reset/confirm/$`) },
+  { method: "GET", path: new RegExp(`^${SUBSCRIPTIONS}plan/$`) },
+  { method: "POST", path: new RegExp(`^${SUBSCRIPTIONS}payment/$`) },
+  { method: "GET", path: new RegExp(`^${SUBSCRIPTIONS}payment/[\\w-]+/$`) },
+];
+
+export const isAllowedRoute = (method: string, pathname: string): boolean =>
+  ALLOWED_ROUTES.some(
+    (route) => route.method === method && route.path.test(pathname),
+  );
+
+/**
+ * Resolves the `url` parameter the portal sends to the upstream URL to call,
+ * or null when it points anywhere but an allow-listed path on the API host.
+ * Only the path and query are kept; the host always comes from config.
+ */
+export const resolveTarget = (
+  rawTarget: string | null,
+  method: string,
+  apiHost: string,
+  upstream: string,
+): URL | null => {
+  if (!rawTarget) return null;
+  let target: URL;
+  try {
+    target = new URL(rawTarget);
+  } catch {
+    return null;
+  }
+  if (target.origin !== new URL(apiHost).origin) return null;
+  if (target.username || target.password) return null;
+  if (!isAllowedRoute(method, target.pathname)) return null;
+  return new URL(`${target.pathname}${target.search}`, upstream);
+};
+
+// Names the reason on the relay's own refusals (see services/transport.ts)
+export const RELAY_ERROR_HEADER = "X-Relay-Error";
+
+/**
+ * RATE LIMIT: Fixed one-minute window per client. Hotspot users share the
+ * venue's public IP, so the limit is per venue in practice; size it for a
+ * busy lunch hour, not for one phone.
+ */
+export class RateLimiter {
+  private windows = new Map<string, { start: number; count: number }>();
+
+  constructor(
+    private limit: number,
+    private windowMs = 60_000,
+  ) {}
+
+  // Milliseconds until the client may retry, or 0 if the request may go
+  check(client: string, now = Date.now()): number {
+    const current = this.windows.get(client);
+    if (!current || now - current.start >= this.windowMs) {
+      this.windows.set(client, { start: now, count: 1 });
+      return 0;
+    }
+    if (current.count >= this.limit) {
+      return current.start + this.windowMs - now;
+    }
+    current.count++;
+    return 0;
+  }
+
+  // Drops finished windows so idle clients do not pile up in memory
+  prune(now = Date.now()) {
+    for (const [client, window] of this.windows) {
+      if (now - window.start >= this.windowMs) this.windows.delete(client);
+    }
+  }
+}
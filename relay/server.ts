@@ -0,0 +1,182 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { RateLimiter, RELAY_ERROR_HEADER, resolveTarget } from "./policy.js";
+
+/**
+ * ONETEL RELAY: First-party CORS relay for the portal. Speaks the `relay`
+ * bridge protocol from services/transport.ts (`/?url=<encoded target>`),
+ * so passwords and tokens never pass through a public proxy.
+ *
+ *   RELAY_PORT              listen port (8787)
+ *   RELAY_API_HOST          OpenWISP host the portal targets
+ *   RELAY_UPSTREAM          where requests actually go; point it at a stub
+ *                           OpenWISP to test locally (RELAY_API_HOST)
+ *   RELAY_ALLOWED_ORIGINS   comma-separated portal origins (any)
+ *   RELAY_RATE_LIMIT        requests per client per minute (120)
+ *   RELAY_TRUST_PROXY       "1" to rate-limit on X-Forwarded-For
+ */
+const env = process.env;
+const PORT = Number(env.RELAY_PORT) || 8787;
+const API_HOST = env.RELAY_API_HOST || "https://device.onetel.co.za";
+const UPSTREAM = env.RELAY_UPSTREAM || API_HOST;
+const ALLOWED_ORIGINS = (env.RELAY_ALLOWED_ORIGINS || "")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const RATE_LIMIT = Number(env.RELAY_RATE_LIMIT) || 120;
+const TRUST_PROXY = env.RELAY_TRUST_PROXY === "1";
+
+const MAX_BODY_BYTES = 16 * 1024;
+const UPSTREAM_TIMEOUT_MS = 15_000;
+
+// Request headers worth passing on; cookies and the rest stay behind
+const FORWARD_HEADERS = ["authorization", "content-type", "accept-language"];
+
+const limiter = new RateLimiter(RATE_LIMIT);
+setInterval(() => limiter.prune(), 60_000).unref();
+
+const corsHeaders = (req: IncomingMessage): Record<string, string> => {
+  const origin = req.headers.origin;
+  const allowOrigin = !ALLOWED_ORIGINS.length
+    ? "*"
+    : origin && ALLOWED_ORIGINS.includes(origin)
+      ? origin
+      : "";
+  if (!allowOrigin) return {};
+  return {
+    "Access-Control-Allow-Origin": allowOrigin,
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers":
+      "Authorization, Content-Type, Accept-Language",
+    "Access-Control-Expose-Headers": `${RELAY_ERROR_HEADER}, Retry-After`,
+    "Access-Control-Max-Age": "600",
+    Vary: "Origin",
+  };
+};
+
+const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: object,
+  headers: Record<string, string> = {},
+) => {
+  res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * REFUSALS: The relay's own rejections go out as 502 with X-Relay-Error so
+ * the portal counts them as a bridge failure and moves on. A 4xx JSON reply
+ * would read as OpenWISP answering (see readUpstreamError in
+ * services/api.ts) and, for a 403, sign the user out.
+ */
+const refuse = (
+  res: ServerResponse,
+  reason: string,
+  detail: string,
+  headers: Record<string, string> = {},
+) =>
+  sendJson(res, 502, { detail }, { ...headers, [RELAY_ERROR_HEADER]: reason });
+
+const clientId = (req: IncomingMessage): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (TRUST_PROXY && typeof forwarded === "string") {
+    return forwarded.split(",")[0].trim();
+  }
+  return req.socket.remoteAddress || "unknown";
+};
+
+const readBody = async (req: IncomingMessage): Promise<string | null> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) return null;
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const cors = corsHeaders(req);
+  const method = req.method || "GET";
+
+  if (method === "OPTIONS") {
+    res.writeHead(cors["Access-Control-Allow-Origin"] ? 204 : 403, cors);
+    res.end();
+    return;
+  }
+  if (!cors["Access-Control-Allow-Origin"]) {
+    refuse(res, "origin", "Origin not allowed.");
+    return;
+  }
+
+  const retryIn = limiter.check(clientId(req));
+  if (retryIn > 0) {
+    refuse(res, "rate_limited", "Too many requests, slow down.", {
+      ...cors,
+      "Retry-After": String(Math.ceil(retryIn / 1000)),
+    });
+    return;
+  }
+
+  const requestUrl = new URL(req.url || "/", "http://relay.local");
+  const target = resolveTarget(
+    requestUrl.searchParams.get("url"),
+    method,
+    API_HOST,
+    UPSTREAM,
+  );
+  if (!target) {
+    refuse(res, "target", "Target not allowed.", cors);
+    return;
+  }
+
+  const body = method === "POST" ? await readBody(req) : undefined;
+  if (body === null) {
+    refuse(res, "body_too_large", "Request body too large.", cors);
+    return;
+  }
+
+  const headers: Record<string, string> = {};
+  FORWARD_HEADERS.forEach((name) => {
+    const value = req.headers[name];
+    if (typeof value === "string") headers[name] = value;
+  });
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(target, {
+      method,
+      headers,
+      body: body || undefined,
+      redirect: "manual",
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+  } catch (err: any) {
+    // Paths only: query strings and bodies may carry credentials
+    console.warn(`${method} ${target.pathname} failed:`, err.message);
+    refuse(res, "upstream_unreachable", "OpenWISP unreachable.", cors);
+    return;
+  }
+
+  console.log(`${method} ${target.pathname} -> ${upstream.status}`);
+  // OpenWISP's throttle says when to try again; the portal reads it
+  const retryAfter = upstream.headers.get("retry-after");
+  res.writeHead(upstream.status, {
+    ...cors,
+    "Content-Type": upstream.headers.get("content-type") || "application/json",
+    "Cache-Control": "no-store",
+    ...(retryAfter ? { "Retry-After": retryAfter } : {}),
+  });
+  res.end(Buffer.from(await upstream.arrayBuffer()));
+};
+
+createServer((req, res) => {
+  handle(req, res).catch((err) => {
+    console.error("Relay error:", err.message);
+    if (!res.headersSent) refuse(res, "internal", "Relay error.");
+    else res.end();
+  });
+}).listen(PORT, () => {
+  console.log(`Relay on :${PORT} -> ${UPSTREAM} (as ${API_HOST})`);
+});
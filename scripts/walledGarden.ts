@@ -0,0 +1,53 @@
+import { readFileSync } from "node:fs";
+import { PORTAL_URL } from "../constants";
+import { resolveVenue } from "../services/config";
+import { configuredBridges } from "../services/transport";
+import { walledGardenFor } from "../services/walledGarden";
+import { PortalConfigFile } from "../types";
+
+/**
+ * WALLED GARDEN GENERATOR: Prints router settings from the same sources the
+ * portal uses, so a Chilli or OpenWISP config never lists a host the portal
+ * stopped using (or misses one it started using).
+ *
+ *   npm run walled-garden              default venue
+ *   npm run walled-garden -- <nasid>   a venue from public/portal-config.json
+ *
+ * Bundled by Vite, so VITE_RELAY_URL / VITE_EXTRA_BRIDGES are read from the
+ * environment and .env files exactly as `npm run build` reads them.
+ */
+const CONFIG_FILE = "public/portal-config.json";
+
+const venueKey = process.argv[2] ?? "";
+const file: PortalConfigFile = JSON.parse(readFileSync(CONFIG_FILE, "utf8"));
+
+if (venueKey && !file.venues?.[venueKey]) {
+  console.error(`No venue "${venueKey}" in ${CONFIG_FILE}`);
+  process.exit(1);
+}
+
+const venue = resolveVenue(file, { nasid: venueKey, called: "" });
+const hosts = walledGardenFor(venue, configuredBridges(import.meta.env));
+
+// uamallowed is resolved to IPs when Chilli starts; uamdomain matches DNS
+// answers as they happen, which keeps rotating CDN addresses reachable
+const openWispTemplate = {
+  chilli: [
+    {
+      config_name: "chilli",
+      config_value: "portal",
+      uamhomepage: PORTAL_URL,
+      uamserver: PORTAL_URL,
+      uamallowed: hosts.join(","),
+      uamdomain: hosts,
+    },
+  ],
+};
+
+console.log(`# Venue: ${venue.id}\n`);
+console.log("# uamallowed (chilli.conf)");
+console.log(`uamallowed "${hosts.join(",")}"\n`);
+console.log("# uamdomain (chilli.conf)");
+hosts.forEach((host) => console.log(`uamdomain "${host}"`));
+console.log("\n# OpenWISP template (OpenWrt backend, configuration JSON)");
+console.log(JSON.stringify(openWispTemplate, null, 2));
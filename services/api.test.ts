@@ -0,0 +1,260 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  exposesSecret,
+  getUsage,
+  loginUser,
+  registerUser,
+  setBridgeConsentHandler,
+} from "./api";
+import {
+  AuthError,
+  BridgeExhaustedError,
+  ThrottleError,
+  UntrustedBridgeError,
+} from "./errors";
+import { BridgeKind, getBridges, registerBridge } from "./transport";
+import { RegistrationPayload } from "../types";
+
+/**
+ * TRANSPORT POLICY: Credentials and tokens must only travel through the
+ * direct path or our own relay, unless the user agrees to a public proxy,
+ * and never in a URL. Every adapter kind is registered, and the stubbed
+ * fetch records where each request would have gone.
+ */
+const RELAY = "https://relay.test/?url=";
+const PASSWORD = "Mango-Harbour-77";
+const TOKEN = "a1b2c3d4e5f6a7b8c9d0";
+
+registerBridge({ id: "relay", name: "Test Relay", kind: "relay", url: RELAY });
+
+const PREFIXES: Record<BridgeKind, string> = {
+  direct: "https://device.onetel.co.za/",
+  relay: RELAY,
+  tunnel: "https://api.allorigins.win/",
+  proxy: "https://api.codetabs.com/",
+};
+
+interface Sent {
+  url: string;
+  init: RequestInit;
+}
+
+let sent: Sent[];
+let reachable: BridgeKind[];
+let relayRefusal: (() => Response) | null;
+// Bridges whose gateway times out waiting on OpenWISP
+let gatewayTimeouts: BridgeKind[];
+
+const kindOf = (url: string) =>
+  (Object.keys(PREFIXES) as BridgeKind[]).find((kind) =>
+    url.startsWith(PREFIXES[kind]),
+  );
+
+beforeEach(() => {
+  sent = [];
+  reachable = [];
+  relayRefusal = null;
+  gatewayTimeouts = [];
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit = {}) => {
+    sent.push({ url, init });
+    const kind = kindOf(url);
+    if (kind === "relay" && relayRefusal) return relayRefusal();
+    if (kind && gatewayTimeouts.includes(kind)) {
+      return new Response("<html>Gateway Timeout</html>", { status: 504 });
+    }
+    if (!kind || !reachable.includes(kind)) {
+      throw new TypeError("Failed to fetch");
+    }
+    return new Response(JSON.stringify({ key: TOKEN, checks: [] }), {
+      status: 200,
+    });
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  setBridgeConsentHandler(null);
+});
+
+const kindsTried = () => [...new Set(sent.map(({ url }) => kindOf(url)))];
+const sentVia = (kind: BridgeKind) =>
+  sent.filter(({ url }) => kindOf(url) === kind).length;
+
+const registration: RegistrationPayload = {
+  username: "+27825550101",
+  email: "",
+  password1: PASSWORD,
+  password2: PASSWORD,
+  first_name: "Thandi",
+  last_name: "Nkosi",
+  phone_number: "+27825550101",
+  method: "mobile_phone",
+  plan_pricing: "148c5cf9-1c6c-45a4-9872-303cebe86f92",
+};
+
+const CREDENTIAL_CALLS = [
+  ["registerUser", () => registerUser(registration)],
+  [
+    "loginUser",
+    () => loginUser({ username: "+27825550101", password: PASSWORD }),
+  ],
+] as const;
+
+describe.each(CREDENTIAL_CALLS)("%s", (_name, call) => {
+  it("goes direct or through the relay without asking", async () => {
+    const ask = vi.fn();
+    setBridgeConsentHandler(ask);
+    reachable = ["relay"];
+
+    await call();
+    expect(kindsTried()).not.toContain("tunnel");
+    expect(kindsTried()).not.toContain("proxy");
+    expect(sent.at(-1)!.url).toMatch(/^https:\/\/relay\.test\/\?url=/);
+    expect(ask).not.toHaveBeenCalled();
+  });
+
+  it("asks before falling back to the public proxy", async () => {
+    const ask = vi.fn().mockResolvedValue(false);
+    setBridgeConsentHandler(ask);
+
+    await expect(call()).rejects.toBeInstanceOf(UntrustedBridgeError);
+    expect(ask).toHaveBeenCalledWith(["Mirror Path (Codetabs)"]);
+    expect(kindsTried().sort()).toEqual(["direct", "relay"]);
+  });
+
+  it("uses the proxy only once the user agrees", async () => {
+    setBridgeConsentHandler(vi.fn().mockResolvedValue(true));
+    reachable = ["proxy"];
+
+    await call();
+    const viaProxy = sent.filter(({ url }) => kindOf(url) === "proxy");
+    expect(viaProxy).toHaveLength(1);
+    expect(viaProxy[0].init.body).toContain(PASSWORD);
+  });
+
+  it("treats a missing consent handler as a no", async () => {
+    await expect(call()).rejects.toBeInstanceOf(UntrustedBridgeError);
+    expect(kindsTried()).not.toContain("proxy");
+  });
+
+  it("never puts the password in a URL", async () => {
+    setBridgeConsentHandler(vi.fn().mockResolvedValue(true));
+    await expect(call()).rejects.toBeInstanceOf(BridgeExhaustedError);
+    expect(sent.length).toBeGreaterThan(0);
+    sent.forEach(({ url }) => {
+      expect(decodeURIComponent(url)).not.toContain(PASSWORD);
+    });
+  });
+});
+
+describe("getUsage", () => {
+  it("sends the token only to the direct path and the relay", async () => {
+    const ask = vi.fn().mockResolvedValue(true);
+    setBridgeConsentHandler(ask);
+
+    await expect(getUsage(TOKEN)).rejects.toBeInstanceOf(BridgeExhaustedError);
+    expect(kindsTried().sort()).toEqual(["direct", "relay"]);
+    expect(ask).not.toHaveBeenCalled();
+    sent.forEach(({ url, init }) => {
+      expect(decodeURIComponent(url)).not.toContain(TOKEN);
+      expect(new Headers(init.headers).get("Authorization")).toBe(
+        `Bearer ${TOKEN}`,
+      );
+    });
+  });
+
+  it("answers through whichever trusted path is up", async () => {
+    reachable = ["direct"];
+    const response = await getUsage(TOKEN);
+    expect(await response.json()).toEqual({ key: TOKEN, checks: [] });
+  });
+});
+
+describe("gateway timeouts", () => {
+  it("sends a POST once per bridge, as OpenWISP may have handled it", async () => {
+    gatewayTimeouts = ["direct", "relay"];
+    await expect(registerUser(registration)).rejects.toBeInstanceOf(
+      UntrustedBridgeError,
+    );
+    expect(sentVia("direct")).toBe(1);
+    expect(sentVia("relay")).toBe(1);
+  });
+
+  it("resends a GET", async () => {
+    gatewayTimeouts = ["direct", "relay"];
+    await expect(getUsage(TOKEN)).rejects.toBeInstanceOf(BridgeExhaustedError);
+    expect(sentVia("direct")).toBeGreaterThan(1);
+    expect(sentVia("relay")).toBeGreaterThan(1);
+  });
+});
+
+describe("relay refusals", () => {
+  const refusal = (status: number, reason: string, detail: string) => () =>
+    new Response(JSON.stringify({ detail }), {
+      status,
+      headers: { "X-Relay-Error": reason },
+    });
+
+  it("moves on to the next bridge instead of signing the user out", async () => {
+    relayRefusal = refusal(502, "target", "Target not allowed.");
+    reachable = ["direct"];
+    const response = await getUsage(TOKEN);
+    expect(await response.json()).toEqual({ key: TOKEN, checks: [] });
+    expect(kindsTried()).toContain("relay");
+  });
+
+  it("sends a POST once when the relay lost OpenWISP mid-request", async () => {
+    relayRefusal = refusal(
+      502,
+      "upstream_unreachable",
+      "OpenWISP unreachable.",
+    );
+    await expect(registerUser(registration)).rejects.toBeInstanceOf(
+      UntrustedBridgeError,
+    );
+    expect(sentVia("relay")).toBe(1);
+  });
+
+  it("never reads a refusal as OpenWISP answering", async () => {
+    relayRefusal = refusal(429, "rate_limited", "Too many requests.");
+    const error = await getUsage(TOKEN).catch((err) => err);
+    expect(error).toBeInstanceOf(BridgeExhaustedError);
+    expect(error).not.toBeInstanceOf(ThrottleError);
+  });
+
+  it("still passes OpenWISP's own errors through the relay", async () => {
+    relayRefusal = () =>
+      new Response(JSON.stringify({ detail: "Invalid token." }), {
+        status: 401,
+      });
+    await expect(getUsage(TOKEN)).rejects.toBeInstanceOf(AuthError);
+  });
+});
+
+describe("exposesSecret", () => {
+  const target = "https://device.onetel.co.za/api/v1/account/token/";
+  const options: RequestInit = {
+    method: "POST",
+    body: JSON.stringify({ username: "+27825550101", password: PASSWORD }),
+  };
+
+  it("catches the tunnel moving a password into its URL", () => {
+    const tunnel = getBridges().find((bridge) => bridge.kind === "tunnel")!;
+    const { url } = tunnel.buildRequest(target, options);
+    expect(exposesSecret(url, options)).toBe(true);
+  });
+
+  it("catches a bearer token in the query string", () => {
+    const headers = { Authorization: `Bearer ${TOKEN}` };
+    expect(exposesSecret(`${target}?auth=${TOKEN}`, { headers })).toBe(true);
+  });
+
+  it("passes adapters that keep secrets in the body and headers", () => {
+    getBridges()
+      .filter((bridge) => bridge.kind !== "tunnel")
+      .forEach((bridge) => {
+        const { url } = bridge.buildRequest(target, options);
+        expect(exposesSecret(url, options)).toBe(false);
+      });
+  });
+});
@@ -1,113 +1,410 @@
-import { RegistrationPayload, LoginPayload } from "../types";
-import { API_ENDPOINT } from "../constants";
-
-export const BRIDGES = [
-  {
-    name: "Rescue Shadow (AllOrigins)",
-    proxy: "https://api.allorigins.win/get?url=",
-    type: "tunnel",
-  },
-  {
-    name: "Mirror Path (Codetabs)",
-    proxy: "https://api.codetabs.com/v1/proxy/?quest=",
-    type: "standard",
-  },
-  { name: "Direct Cloud", proxy: "", type: "direct" }, // Moved to last
-];
-
-export interface BridgeError {
-  bridge: string;
-  error: string;
-  timestamp: string;
+import {
+  RegistrationPayload,
+  LoginPayload,
+  ApiErrorBody,
+  PasswordResetRequestPayload,
+  PasswordResetVerifyPayload,
+  PasswordResetConfirmPayload,
+} from "../types";
+import {
+  BridgeAdapter,
+  BridgeKind,
+  getRankedBridges,
+  recordBridgeResult,
+  RELAY_ERROR_HEADER,
+} from "./transport";
+import { accountEndpoint, subscriptionsEndpoint } from "./config";
+import {
+  ApiError,
+  BridgeAttempt,
+  BridgeExhaustedError,
+  CancelledError,
+  NetworkError,
+  toApiError,
+  UntrustedBridgeError,
+} from "./errors";
+import { getLanguage } from "../i18n";
+import { logger } from "./logger";
+import {
+  BRIDGE_BACKOFF_MS,
+  BRIDGE_MAX_RETRIES,
+  BRIDGE_RACE_WIDTH,
+  BRIDGE_TIMEOUT_MS,
+} from "../constants";
+
+/**
+ * A 4xx with a JSON object body is OpenWISP answering (bad input, expired
+ * token, throttling), not the bridge failing. Anything else means the
+ * bridge itself is unusable.
+ */
+const readUpstreamError = async (
+  response: Response,
+): Promise<ApiErrorBody | null> => {
+  if (response.status < 400 || response.status >= 500) return null;
+  try {
+    const body = await response.json();
+    return body && typeof body === "object" && !Array.isArray(body)
+      ? body
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * SENSITIVITY: What a call carries decides which bridges may see it.
+ * `personal` is a phone number or email, `credential` a password or reset
+ * code, `token` an OpenWISP auth token.
+ */
+export type Sensitivity = "public" | "personal" | "credential" | "token";
+
+export interface TransportPolicy {
+  // Bridge kinds tried without asking
+  allowed: BridgeKind[];
+  // Third-party kinds used only after the user agrees, once the above fail
+  withConsent: BridgeKind[];
 }
 
-export let lastBridgeLogs: BridgeError[] = [];
+// The tunnel moves POST bodies into its URL, so it only ever sees public calls
+export const TRANSPORT_POLICY: Record<Sensitivity, TransportPolicy> = {
+  public: { allowed: ["direct", "relay", "tunnel", "proxy"], withConsent: [] },
+  personal: { allowed: ["direct", "relay"], withConsent: ["proxy"] },
+  credential: { allowed: ["direct", "relay"], withConsent: ["proxy"] },
+  // Prefix proxies drop the Authorization header, so they cannot help here
+  token: { allowed: ["direct", "relay"], withConsent: [] },
+};
+
+export type BridgeConsentHandler = (bridges: string[]) => Promise<boolean>;
+
+let askBridgeConsent: BridgeConsentHandler | null = null;
 
 /**
- * FETCH WITH SHADOW RESILIENCE v9.0
- * Specifically designed to bypass the CORS blocks shown in your console.
+ * CONSENT: The UI registers how to ask the user before credentials go
+ * through a third-party bridge. Without a handler the answer is no.
  */
-async function fetchWithResilience(
-  targetUrl: string,
-  options: RequestInit,
-): Promise<Response> {
-  lastBridgeLogs = [];
+export const setBridgeConsentHandler = (
+  handler: BridgeConsentHandler | null,
+) => {
+  askBridgeConsent = handler;
+};
+
+// Anything shorter (OTP codes) could collide with the cache buster digits
+const MIN_SECRET_LENGTH = 8;
+const SECRET_FIELDS = /password|token|key|code/i;
 
-  for (const bridge of BRIDGES) {
+const secretsOf = (options: RequestInit): string[] => {
+  const secrets: string[] = [];
+  const auth = new Headers(options.headers).get("Authorization");
+  if (auth) secrets.push(auth.replace(/^Bearer\s+/i, ""));
+  if (typeof options.body === "string") {
     try {
-      const isDirect = bridge.type === "direct";
-      const isTunnel = bridge.type === "tunnel";
-
-      // Cache busting
-      const buster = `_ts=${Date.now()}`;
-      const urlWithBuster = targetUrl.includes("?")
-        ? `${targetUrl}&${buster}`
-        : `${targetUrl}?${buster}`;
-
-      let fullUrl = isDirect
-        ? urlWithBuster
-        : `${bridge.proxy}${encodeURIComponent(urlWithBuster)}`;
-
-      let fetchOptions: RequestInit = {
-        ...options,
-        mode: "cors",
-        credentials: "omit",
-      };
-
-      if (!isDirect) {
-        // BYPASS CORS PREFLIGHT:
-        // We avoid sending 'application/json' which triggers the 'OPTIONS' preflight check.
-        if (isTunnel && options.method === "POST") {
-          // Convert POST body to a URL parameter for AllOrigins
-          fullUrl += `&payload=${encodeURIComponent(options.body as string)}`;
-          fetchOptions.method = "GET";
-          delete fetchOptions.body;
-          fetchOptions.headers = { Accept: "application/json" };
-        } else {
-          // Use text/plain to stay as a "Simple Request"
-          fetchOptions.headers = { "Content-Type": "text/plain" };
+      Object.entries(JSON.parse(options.body)).forEach(([field, value]) => {
+        if (SECRET_FIELDS.test(field) && typeof value === "string") {
+          secrets.push(value);
         }
-      } else {
-        fetchOptions.headers = {
-          ...options.headers,
-          "Content-Type": "application/json",
-        };
-      }
+      });
+    } catch {
+      // Not JSON, nothing we know how to pick apart
+    }
+  }
+  return secrets.filter((secret) => secret.length >= MIN_SECRET_LENGTH);
+};
 
-      console.log(`🚀 Attempting bridge: ${bridge.name}`);
-      const response = await fetch(fullUrl, fetchOptions);
-
-      // Handle AllOrigins Wrapper
-      if (isTunnel) {
-        const wrapper = await response.json();
-        if (wrapper.contents) {
-          console.log(`✅ Success via ${bridge.name}`);
-          return new Response(wrapper.contents, {
-            status: 200,
-            headers: { "Content-Type": "application/json" },
-          });
-        }
-      }
+/**
+ * Last line of defence behind the policy: no adapter may move a password
+ * or token into the URL, where proxies and their logs would keep it.
+ */
+export const exposesSecret = (url: string, options: RequestInit): boolean => {
+  let decoded = url;
+  try {
+    decoded = decodeURIComponent(url);
+  } catch {
+    // Malformed escapes; the raw URL is still worth checking
+  }
+  return secretsOf(options).some(
+    (secret) => url.includes(secret) || decoded.includes(secret),
+  );
+};
+
+// Gateways and proxies answer these when briefly overloaded
+const RETRYABLE_STATUSES = [502, 503, 504];
 
-      if (response.ok) {
-        console.log(`✅ Success via ${bridge.name}`);
-        return response;
+// Of the relay's own refusals, only an unreachable upstream is worth a
+// retry, and only for a GET: the upstream may have timed out mid-POST
+const RETRYABLE_RELAY_ERRORS = ["upstream_unreachable"];
+
+class BridgeFailure extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable = false) {
+    super(message);
+    this.retryable = retryable;
+  }
+}
+
+interface Attempt {
+  response: Response | null;
+  retryable: boolean;
+}
+
+// One fetchWithResilience call, shared by every bridge attempt it makes
+interface BridgeCall {
+  targetUrl: string;
+  options: RequestInit;
+  // Bridge failures so far, for the error the caller may end up with
+  attempts: BridgeAttempt[];
+}
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+
+/**
+ * Aborts when the parent signal does or after `timeoutMs`, whichever comes
+ * first. Call `done` once the attempt is over to drop the timer.
+ */
+const timeoutSignal = (parent: AbortSignal, timeoutMs: number) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timer = setTimeout(abort, timeoutMs);
+  parent.addEventListener("abort", abort, { once: true });
+  return {
+    signal: controller.signal,
+    done: () => {
+      clearTimeout(timer);
+      parent.removeEventListener("abort", abort);
+    },
+  };
+};
+
+/**
+ * HIJACK CHECK: A router that intercepts the request answers 200 with its
+ * own HTML login page. Only JSON (or an empty body) is OpenWISP talking.
+ */
+const isJsonReply = async (response: Response): Promise<boolean> => {
+  const text = await response.clone().text();
+  if (!text.trim()) return true;
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * One bridge, one attempt, bounded by BRIDGE_TIMEOUT_MS. OpenWISP
+ * rejections throw the matching ApiError; bridge failures resolve with no
+ * response. Aborts from `parent` (a lost race, the caller cancelling) are
+ * not held against the bridge.
+ */
+async function attemptBridge(
+  bridge: BridgeAdapter,
+  { targetUrl, options, attempts }: BridgeCall,
+  parent: AbortSignal,
+): Promise<Attempt> {
+  const start = Date.now();
+  const attempt = timeoutSignal(parent, BRIDGE_TIMEOUT_MS);
+  try {
+    // Cache busting
+    const buster = `_ts=${Date.now()}`;
+    const urlWithBuster = targetUrl.includes("?")
+      ? `${targetUrl}&${buster}`
+      : `${targetUrl}?${buster}`;
+
+    // OpenWISP words its validation errors in the portal's language
+    const { url, init } = bridge.buildRequest(urlWithBuster, {
+      ...options,
+      headers: { "Accept-Language": getLanguage(), ...options.headers },
+      mode: "cors",
+      credentials: "omit",
+    });
+    if (exposesSecret(url, options)) {
+      throw new Error("Refused: credentials would end up in the URL");
+    }
+
+    logger.debug("api", `Trying ${bridge.name}`);
+    const response = await bridge.parseResponse(
+      await fetch(url, { ...init, signal: attempt.signal }),
+    );
+
+    if (response.ok) {
+      if (!(await isJsonReply(response))) {
+        throw new Error("Non-JSON reply, likely a router login page");
       }
+      const latency = Date.now() - start;
+      logger.info("api", `${bridge.name} answered ${response.status}`, {
+        latency,
+      });
+      recordBridgeResult(bridge.id, true, latency);
+      return { response, retryable: false };
+    }
+
+    const relayError = response.headers.get(RELAY_ERROR_HEADER);
+    if (relayError) {
+      throw new BridgeFailure(
+        `Relay refused: ${relayError}`,
+        RETRYABLE_RELAY_ERRORS.includes(relayError) && options.method === "GET",
+      );
+    }
 
-      throw new Error(`Status ${response.status}`);
-    } catch (err: any) {
-      console.warn(`❌ ${bridge.name} failed:`, err.message);
-      lastBridgeLogs.push({
-        bridge: bridge.name,
-        error: err.message,
-        timestamp: new Date().toLocaleTimeString(),
+    const upstreamError = await readUpstreamError(response);
+    if (upstreamError) {
+      const latency = Date.now() - start;
+      logger.info("api", `${bridge.name} answered ${response.status}`, {
+        latency,
+        ...upstreamError,
       });
+      recordBridgeResult(bridge.id, true, latency);
+      throw toApiError(response, upstreamError);
     }
+
+    // A gateway timeout may come after OpenWISP handled the POST
+    throw new BridgeFailure(
+      `Status ${response.status}`,
+      RETRYABLE_STATUSES.includes(response.status) && options.method === "GET",
+    );
+  } catch (err: any) {
+    if (err instanceof ApiError) throw err;
+    if (parent.aborted) return { response: null, retryable: false };
+
+    const timedOut = attempt.signal.aborted;
+    const message = timedOut
+      ? `Timed out after ${BRIDGE_TIMEOUT_MS / 1000}s`
+      : err.message;
+    const latency = Date.now() - start;
+    logger.warn("api", `${bridge.name} failed: ${message}`, { latency });
+    recordBridgeResult(bridge.id, false, latency);
+    attempts.push({
+      bridge: bridge.name,
+      error: message,
+      timestamp: new Date().toLocaleTimeString(),
+    });
+    // A failed fetch may still have reached OpenWISP, so only GETs resend
+    const retryable =
+      err instanceof BridgeFailure
+        ? err.retryable
+        : !timedOut && err instanceof TypeError && options.method === "GET";
+    return { response: null, retryable };
+  } finally {
+    attempt.done();
   }
+}
 
-  throw new Error(
-    "All access paths blocked. Please check Walled Garden settings.",
-  );
+// Retries transient failures on the same bridge with exponential backoff
+async function tryBridge(
+  bridge: BridgeAdapter,
+  call: BridgeCall,
+  parent: AbortSignal,
+): Promise<Response | null> {
+  for (let retry = 0; ; retry++) {
+    const { response, retryable } = await attemptBridge(bridge, call, parent);
+    if (response || !retryable || retry >= BRIDGE_MAX_RETRIES) {
+      return response;
+    }
+    await sleep(BRIDGE_BACKOFF_MS * 2 ** retry, parent);
+    if (parent.aborted) return null;
+  }
+}
+
+/**
+ * RACE: Tries the bridges at once and keeps the first valid response; the
+ * rest are aborted. An OpenWISP rejection is a valid answer too.
+ */
+async function raceBridges(
+  bridges: BridgeAdapter[],
+  call: BridgeCall,
+  parent: AbortSignal,
+): Promise<Response | null> {
+  if (!bridges.length) return null;
+  const race = new AbortController();
+  const abortRace = () => race.abort();
+  parent.addEventListener("abort", abortRace, { once: true });
+  try {
+    return await new Promise<Response | null>((resolve, reject) => {
+      let pending = bridges.length;
+      bridges.forEach((bridge) => {
+        tryBridge(bridge, call, race.signal).then((response) => {
+          if (response) resolve(response);
+          else if (--pending === 0) resolve(null);
+        }, reject);
+      });
+    });
+  } finally {
+    race.abort();
+    parent.removeEventListener("abort", abortRace);
+  }
+}
+
+/**
+ * FETCH WITH SHADOW RESILIENCE v10.0
+ * Walks the bridges the call's sensitivity allows, healthiest-first; every
+ * attempt feeds back into the bridge's health score. Third-party bridges
+ * only get a sensitive call once the user has agreed to it.
+ *
+ * In race mode the top BRIDGE_RACE_WIDTH bridges go at once. Only GETs
+ * race by default: a raced POST would register twice or send two SMS.
+ * Aborting `options.signal` cancels everything with a CancelledError.
+ */
+async function fetchWithResilience(
+  targetUrl: string,
+  options: RequestInit,
+  sensitivity: Sensitivity,
+  race = options.method === "GET",
+): Promise<Response> {
+  if (!navigator.onLine) throw new NetworkError();
+  const signal = options.signal ?? new AbortController().signal;
+  const call: BridgeCall = { targetUrl, options, attempts: [] };
+  const path = new URL(targetUrl).pathname;
+  logger.info("api", `${options.method} ${path}`, { sensitivity });
+
+  const runBridges = async (bridges: BridgeAdapter[]) => {
+    const width = race ? BRIDGE_RACE_WIDTH : 0;
+    let response = await raceBridges(bridges.slice(0, width), call, signal);
+    for (const bridge of bridges.slice(width)) {
+      if (response || signal.aborted) break;
+      response = await tryBridge(bridge, call, signal);
+    }
+    if (signal.aborted) {
+      logger.info("api", `${path} cancelled`);
+      throw new CancelledError();
+    }
+    return response;
+  };
+
+  const policy = TRANSPORT_POLICY[sensitivity];
+  const ranked = getRankedBridges();
+  const permitted = (kinds: BridgeKind[]) =>
+    ranked.filter((bridge) => kinds.includes(bridge.kind));
+
+  const response = await runBridges(permitted(policy.allowed));
+  if (response) return response;
+
+  const fallback = permitted(policy.withConsent);
+  if (fallback.length) {
+    const agreed = askBridgeConsent
+      ? await askBridgeConsent(fallback.map((bridge) => bridge.name))
+      : false;
+    logger.warn("api", `Only third-party bridges left for ${path}`, {
+      bridges: fallback.map((bridge) => bridge.name),
+      agreed,
+    });
+    if (!agreed) throw new UntrustedBridgeError(call.attempts);
+    const viaProxy = await runBridges(fallback);
+    if (viaProxy) return viaProxy;
+  }
+
+  logger.error("api", `Every bridge failed for ${path}`);
+  throw new BridgeExhaustedError(call.attempts);
 }
 
 /**
@@ -115,41 +412,199 @@ async function fetchWithResilience(
  */
 export const registerUser = async (
   data: RegistrationPayload,
+  signal?: AbortSignal,
 ): Promise<Response> => {
-  return await fetchWithResilience(`${API_ENDPOINT}register/`, {
-    method: "POST",
-    body: JSON.stringify(data),
-  });
+  return await fetchWithResilience(
+    `${accountEndpoint()}register/`,
+    {
+      method: "POST",
+      signal,
+      body: JSON.stringify(data),
+    },
+    "credential",
+  );
 };
 
-export const loginUser = async (data: LoginPayload): Promise<Response> => {
-  return await fetchWithResilience(`${API_ENDPOINT}token/`, {
-    method: "POST",
-    body: JSON.stringify(data),
-  });
+export const loginUser = async (
+  data: LoginPayload,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  return await fetchWithResilience(
+    `${accountEndpoint()}token/`,
+    {
+      method: "POST",
+      signal,
+      body: JSON.stringify(data),
+    },
+    "credential",
+  );
 };
 
-export const getUsage = async (token: string): Promise<Response> => {
-  return await fetchWithResilience(`${API_ENDPOINT}usage/`, {
-    method: "GET",
-    headers: { Authorization: `Bearer ${token}` },
-  });
+export const getUsage = async (
+  token: string,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  return await fetchWithResilience(
+    `${accountEndpoint()}usage/`,
+    {
+      method: "GET",
+      signal,
+      headers: { Authorization: `Bearer ${token}` },
+    },
+    "token",
+  );
 };
 
-export const requestOtp = async (token: string): Promise<Response> => {
-  return await fetchWithResilience(`${API_ENDPOINT}phone/token/`, {
-    method: "POST",
-    headers: { Authorization: `Bearer ${token}` },
-  });
+export const requestOtp = async (
+  token: string,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  return await fetchWithResilience(
+    `${accountEndpoint()}phone/token/`,
+    {
+      method: "POST",
+      signal,
+      headers: { Authorization: `Bearer ${token}` },
+    },
+    "token",
+  );
 };
 
 export const verifyOtp = async (
   token: string,
   code: string,
+  signal?: AbortSignal,
 ): Promise<Response> => {
-  return await fetchWithResilience(`${API_ENDPOINT}phone/verify/`, {
-    method: "POST",
-    headers: { Authorization: `Bearer ${token}` },
-    body: JSON.stringify({ code }),
-  });
+  return await fetchWithResilience(
+    `${accountEndpoint()}phone/verify/`,
+    {
+      method: "POST",
+      signal,
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ code }),
+    },
+    "token",
+  );
+};
+
+// Re-checks a token; the reply carries the current is_verified flag
+export const validateToken = async (
+  token: string,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  return await fetchWithResilience(
+    `${accountEndpoint()}token/validate/`,
+    {
+      method: "POST",
+      signal,
+      body: JSON.stringify({ token }),
+    },
+    "token",
+  );
+};
+
+export const resendVerificationEmail = async (
+  email: string,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  return await fetchWithResilience(
+    `${accountEndpoint()}email/resend/`,
+    {
+      method: "POST",
+      signal,
+      body: JSON.stringify({ email }),
+    },
+    "personal",
+  );
+};
+
+export const requestPasswordReset = async (
+  data: PasswordResetRequestPayload,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  return await fetchWithResilience(
+    `${accountEndpoint()}password/reset/`,
+    {
+      method: "POST",
+      signal,
+      body: JSON.stringify(data),
+    },
+    "personal",
+  );
+};
+
+// Backend extension (see README): trades the SMS code for a uid/token
+export const verifyPasswordResetCode = async (
+  data: PasswordResetVerifyPayload,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  return await fetchWithResilience(
+    `${accountEndpoint()}password/reset/verify/`,
+    {
+      method: "POST",
+      signal,
+      body: JSON.stringify(data),
+    },
+    "credential",
+  );
+};
+
+export const confirmPasswordReset = async (
+  data: PasswordResetConfirmPayload,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  return await fetchWithResilience(
+    `${accountEndpoint()}password/reset/confirm/`,
+    {
+      method: "POST",
+      signal,
+      body: JSON.stringify(data),
+    },
+    "credential",
+  );
+};
+
+export const getPlans = async (signal?: AbortSignal): Promise<Response> => {
+  return await fetchWithResilience(
+    `${subscriptionsEndpoint()}plan/`,
+    {
+      method: "GET",
+      signal,
+    },
+    "public",
+  );
+};
+
+export const startPayment = async (
+  token: string,
+  pricingId: string,
+  returnUrl: string,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  return await fetchWithResilience(
+    `${subscriptionsEndpoint()}payment/`,
+    {
+      method: "POST",
+      signal,
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ plan_pricing: pricingId, return_url: returnUrl }),
+    },
+    "token",
+  );
+};
+
+export const getPaymentStatus = async (
+  token: string,
+  paymentId: string,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  return await fetchWithResilience(
+    `${subscriptionsEndpoint()}payment/${encodeURIComponent(paymentId)}/`,
+    {
+      method: "GET",
+      signal,
+      headers: { Authorization: `Bearer ${token}` },
+    },
+    "token",
+  );
 };
@@ -0,0 +1,83 @@
+import { ChilliStatusResponse, HotspotContext } from "../types";
+import { CHILLI_TIMEOUT_MS } from "../constants";
+import { chilliBaseUrl } from "./hotspot";
+import { buildLogonFields } from "./uam";
+
+let jsonpSeq = 0;
+
+/**
+ * JSONP: Chilli's /json interface only speaks JSONP, so we inject a script
+ * tag with a one-off callback instead of going through fetch/CORS.
+ */
+const jsonp = <T>(url: string, timeoutMs = CHILLI_TIMEOUT_MS): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const callback = `__chilli_cb_${Date.now()}_${jsonpSeq++}`;
+    const script = document.createElement("script");
+    const scope = window as unknown as Record<string, unknown>;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      delete scope[callback];
+      script.remove();
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error("Hotspot router did not respond."));
+    }, timeoutMs);
+
+    scope[callback] = (data: T) => {
+      cleanup();
+      resolve(data);
+    };
+    script.onerror = () => {
+      cleanup();
+      reject(new Error("Hotspot router JSON interface unreachable."));
+    };
+
+    const separator = url.includes("?") ? "&" : "?";
+    script.src = `${url}${separator}callback=${callback}`;
+    document.head.appendChild(script);
+  });
+
+const jsonUrl = (
+  ctx: HotspotContext,
+  action: string,
+  params: Record<string, string> = {},
+) => {
+  const query = new URLSearchParams(params).toString();
+  return `${chilliBaseUrl(ctx)}/json/${action}${query ? `?${query}` : ""}`;
+};
+
+export const getChilliStatus = (
+  ctx: HotspotContext,
+): Promise<ChilliStatusResponse> => jsonp(jsonUrl(ctx, "status"));
+
+/**
+ * LOGON: Fetches a fresh challenge from /json/status, then logs on with the
+ * CHAP/PAP encoded credentials. Resolves with the resulting status.
+ */
+export const chilliLogon = async (
+  ctx: HotspotContext,
+  username: string,
+  password: string,
+): Promise<ChilliStatusResponse> => {
+  const status = await getChilliStatus(ctx);
+  if (status.clientState === 1) return status;
+
+  const fields = buildLogonFields({
+    username,
+    password,
+    challenge: status.challenge || ctx.challenge,
+  });
+  return jsonp(jsonUrl(ctx, "logon", fields));
+};
+
+export const chilliLogoff = (
+  ctx: HotspotContext,
+): Promise<ChilliStatusResponse> => jsonp(jsonUrl(ctx, "logoff"));
+
+/**
+ * Chilli reports octet counters as 32-bit values plus a gigaword overflow.
+ */
+export const totalOctets = (octets = 0, gigawords = 0): number =>
+  gigawords * 2 ** 32 + octets;
@@ -0,0 +1,121 @@
+import {
+  EmailField,
+  HotspotContext,
+  PortalConfigFile,
+  ThemeTokens,
+  VenueConfig,
+  VenueOverride,
+} from "../types";
+import {
+  API_HOST,
+  DEFAULT_ORGANIZATION,
+  DEFAULT_PHONE_COUNTRIES,
+  DEFAULT_PLAN_UUID,
+  DEFAULT_THEME,
+  VENUE_CONFIG_TIMEOUT_MS,
+  VENUE_CONFIG_URL,
+} from "../constants";
+import { logger } from "./logger";
+
+export const DEFAULT_VENUE_CONFIG: VenueConfig = {
+  id: "default",
+  organization: DEFAULT_ORGANIZATION,
+  apiHost: API_HOST,
+  logoUrl: "",
+  theme: DEFAULT_THEME,
+  defaultPlan: DEFAULT_PLAN_UUID,
+  plans: [],
+  walledGarden: [],
+  phoneCountries: DEFAULT_PHONE_COUNTRIES,
+  verificationMethod: "mobile_phone",
+  emailField: "optional",
+  // Empty strings fall back to the translated defaults
+  text: {
+    brandName: "ONETEL",
+    tagline: "",
+    registerHeadline: "",
+  },
+};
+
+let activeConfig: VenueConfig = DEFAULT_VENUE_CONFIG;
+
+const mergeVenue = (
+  base: VenueConfig,
+  override: VenueOverride = {},
+  id: string = base.id,
+): VenueConfig => ({
+  ...base,
+  ...override,
+  id,
+  theme: { ...base.theme, ...override.theme },
+  text: { ...base.text, ...override.text },
+});
+
+/**
+ * THEME: Components use the `brand-*` Tailwind colours, which index.html
+ * maps onto these CSS variables.
+ */
+export const applyTheme = (theme: ThemeTokens) => {
+  const root = document.documentElement.style;
+  root.setProperty("--brand-500", theme.primary);
+  root.setProperty("--brand-600", theme.primaryDark);
+  root.setProperty("--brand-300", theme.primaryLight);
+  root.setProperty("--brand-100", theme.tint);
+  root.setProperty("--brand-50", theme.surface);
+  root.setProperty("--page-bg", theme.background);
+};
+
+/**
+ * Picks the venue entry for this hotspot: `nasid` first, then the `called`
+ * station id (AP MAC / SSID).
+ */
+export const resolveVenue = (
+  file: PortalConfigFile,
+  hotspot: Pick<HotspotContext, "nasid" | "called">,
+): VenueConfig => {
+  const base = mergeVenue(DEFAULT_VENUE_CONFIG, file.default);
+  const venues = file.venues ?? {};
+  const key = [hotspot.nasid, hotspot.called].find((k) => k && venues[k]);
+  return key ? mergeVenue(base, venues[key], key) : base;
+};
+
+/**
+ * LOADER: Runs once before the first render. A missing or slow config file
+ * leaves the built-in defaults in place rather than blocking the portal.
+ */
+export const loadVenueConfig = async (
+  hotspot: HotspotContext,
+): Promise<VenueConfig> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), VENUE_CONFIG_TIMEOUT_MS);
+  try {
+    const response = await fetch(VENUE_CONFIG_URL, {
+      signal: controller.signal,
+      cache: "no-cache",
+    });
+    if (!response.ok) throw new Error(`Status ${response.status}`);
+    activeConfig = resolveVenue(await response.json(), hotspot);
+  } catch (err: any) {
+    logger.warn(
+      "config",
+      `Venue config unavailable, using defaults: ${err.message}`,
+    );
+    activeConfig = resolveVenue({}, hotspot);
+  } finally {
+    clearTimeout(timer);
+  }
+  applyTheme(activeConfig.theme);
+  return activeConfig;
+};
+
+export const getVenueConfig = (): VenueConfig => activeConfig;
+
+// Email verification can't work without an address to send the link to
+export const emailFieldFor = (venue: VenueConfig): EmailField =>
+  venue.verificationMethod === "email" ? "required" : venue.emailField;
+
+export const accountEndpoint = (): string =>
+  `${activeConfig.apiHost}/api/v1/radius/organization/${activeConfig.organization}/account/`;
+
+export const subscriptionsEndpoint = (): string =>
+  `${activeConfig.apiHost}/api/v1/subscriptions/organization/${activeConfig.organization}/`;
@@ -0,0 +1,281 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DetectorOptions,
+  HostTarget,
+  probeBridge,
+  probeHost,
+  runDetection,
+} from "./detector";
+import { BridgeKind, getBridges, registerBridge } from "./transport";
+import { PORTAL_URL } from "../constants";
+
+/**
+ * VERDICTS: Each probe runs against a stubbed fetch that plays one failure
+ * mode, and must name it.
+ */
+const TARGET = "https://device.onetel.co.za/api/v1/plan/";
+// The portal as served in development, and as deployed
+const PLAIN_ORIGIN = "http://localhost:3000/";
+const SECURE_ORIGIN = PORTAL_URL;
+const PLANS = JSON.stringify([]);
+
+registerBridge({
+  id: "relay",
+  name: "Test Relay",
+  kind: "relay",
+  url: "https://relay.test/?url=",
+});
+
+const bridge = (kind: BridgeKind) =>
+  getBridges().find((candidate) => candidate.kind === kind)!;
+
+type Handler = (url: string, init: RequestInit) => Response | Promise<Response>;
+
+const options = (
+  handler: Handler,
+  extra: Partial<DetectorOptions> = {},
+): DetectorOptions => ({
+  fetch: vi.fn(async (url: string | URL | Request, init: RequestInit = {}) =>
+    handler(String(url), init),
+  ) as unknown as typeof fetch,
+  target: TARGET,
+  timeoutMs: 50,
+  ...extra,
+});
+
+const fail = (): never => {
+  throw new TypeError("Failed to fetch");
+};
+
+const json = (body: string, status = 200, headers: HeadersInit = {}) =>
+  new Response(body, {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+const html = (status: number) =>
+  new Response("<html>Gateway</html>", {
+    status,
+    headers: { "Content-Type": "text/html" },
+  });
+
+describe("probeBridge", () => {
+  it("passes a JSON reply", async () => {
+    const result = await probeBridge(
+      bridge("direct"),
+      options(() => json(PLANS)),
+    );
+    expect(result).toMatchObject({
+      id: "direct",
+      scope: "bridge",
+      verdict: "healthy",
+    });
+  });
+
+  it("blames the bridge for an error page instead of DNS", async () => {
+    const result = await probeBridge(
+      bridge("proxy"),
+      options(() => html(502)),
+    );
+    expect(result.verdict).toBe("upstream");
+    expect(result.detail).toBe("Bridge answered 502 without reaching OpenWISP");
+  });
+
+  it("reads a relay refusal as the bridge failing upstream", async () => {
+    const refusal = () =>
+      json('{"detail":"Target not allowed."}', 502, {
+        "X-Relay-Error": "target",
+      });
+    const result = await probeBridge(bridge("relay"), options(refusal));
+    expect(result.verdict).toBe("upstream");
+    expect(result.detail).toBe("Relay refused: target");
+  });
+
+  it("reads a JSON 5xx from OpenWISP as upstream, not healthy", async () => {
+    const result = await probeBridge(
+      bridge("direct"),
+      options(() => json('{"detail":"Server error"}', 503)),
+    );
+    expect(result.verdict).toBe("upstream");
+    expect(result.detail).toBe("OpenWISP answered 503");
+  });
+
+  it("reads an empty tunnel wrapper as upstream", async () => {
+    const result = await probeBridge(
+      bridge("tunnel"),
+      options(() => json('{"contents":null,"status":{"http_code":404}}')),
+    );
+    expect(result.verdict).toBe("upstream");
+  });
+
+  it("flags an HTML page in place of JSON as intercepted", async () => {
+    const result = await probeBridge(
+      bridge("direct"),
+      options(() => html(200)),
+    );
+    expect(result.verdict).toBe("intercepted");
+  });
+
+  it("flags a redirect to another host as intercepted", async () => {
+    const redirected = () => {
+      const response = html(200);
+      Object.defineProperty(response, "redirected", { value: true });
+      Object.defineProperty(response, "url", {
+        value: "http://192.168.182.1:3990/prelogin",
+      });
+      return response;
+    };
+    const result = await probeBridge(bridge("direct"), options(redirected));
+    expect(result.verdict).toBe("intercepted");
+    expect(result.detail).toBe("Redirected to 192.168.182.1:3990");
+  });
+
+  it("calls it CORS when only the opaque fetch gets through", async () => {
+    const result = await probeBridge(
+      bridge("direct"),
+      options((_url, init) => (init.mode === "cors" ? fail() : html(200))),
+    );
+    expect(result.verdict).toBe("cors");
+  });
+
+  it("blames the walled garden for unlisted hosts before logon", async () => {
+    const result = await probeBridge(
+      bridge("proxy"),
+      options(fail, { walledGarden: true, allowedHosts: ["relay.test"] }),
+    );
+    expect(result.verdict).toBe("walled_garden");
+  });
+
+  it("does not blame the walled garden for a listed host", async () => {
+    const result = await probeBridge(
+      bridge("relay"),
+      options(fail, { walledGarden: true, allowedHosts: ["relay.test"] }),
+    );
+    expect(result.verdict).toBe("unreachable");
+  });
+
+  it("spots TLS interception when plain HTTP gets through", async () => {
+    const handler = options(
+      (url) => (url === "http://device.onetel.co.za/" ? html(200) : fail()),
+      { origin: PLAIN_ORIGIN },
+    );
+    const result = await probeBridge(bridge("direct"), handler);
+    expect(result.verdict).toBe("tls");
+    expect(handler.fetch).toHaveBeenCalledWith(
+      "http://device.onetel.co.za/",
+      expect.objectContaining({ mode: "no-cors" }),
+    );
+  });
+
+  it("calls it DNS when nothing answers after logon", async () => {
+    const result = await probeBridge(bridge("direct"), options(fail));
+    expect(result.verdict).toBe("dns");
+  });
+
+  it("compares with the portal's host from an https: page", async () => {
+    // Plain HTTP would answer, but the browser blocks it as mixed content
+    const handler = options(
+      (url) =>
+        url.startsWith("http:") || url === PORTAL_URL ? html(200) : fail(),
+      { origin: SECURE_ORIGIN },
+    );
+    const result = await probeBridge(bridge("direct"), handler);
+    expect(result.verdict).toBe("unreachable");
+    expect(result.detail).toMatch(/^tmanscript\.github\.io answers/);
+    expect(handler.fetch).not.toHaveBeenCalledWith(
+      expect.stringMatching(/^http:/),
+      expect.anything(),
+    );
+
+    handler.fetch = vi.fn(async () => fail()) as unknown as typeof fetch;
+    expect((await probeBridge(bridge("direct"), handler)).verdict).toBe("dns");
+  });
+
+  it("times out a probe that never answers", async () => {
+    const hang: Handler = (_url, init) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () =>
+          reject(new DOMException("Aborted", "AbortError")),
+        );
+      });
+    const result = await probeBridge(bridge("direct"), options(hang));
+    expect(result.verdict).toBe("timeout");
+  });
+});
+
+describe("probeHost", () => {
+  const api: HostTarget = { id: "api", url: "https://device.onetel.co.za/" };
+
+  it("only needs an opaque reply", async () => {
+    const probe = options(() => html(404));
+    const result = await probeHost(api, probe);
+    expect(result).toMatchObject({
+      id: "api",
+      scope: "host",
+      name: "device.onetel.co.za",
+      verdict: "healthy",
+    });
+    expect(probe.fetch).toHaveBeenCalledWith(
+      api.url,
+      expect.objectContaining({ mode: "no-cors" }),
+    );
+  });
+
+  it("tells TLS interception apart from an unreachable host", async () => {
+    const plainOnly = options(
+      (url) => (url.startsWith("http:") ? html(200) : fail()),
+      { origin: PLAIN_ORIGIN },
+    );
+    expect((await probeHost(api, plainOnly)).verdict).toBe("tls");
+    expect((await probeHost(api, options(fail))).verdict).toBe("dns");
+  });
+
+  it("leaves the cause open when only this host fails", async () => {
+    const portalOnly = options(
+      (url) => (url === PORTAL_URL ? html(200) : fail()),
+      { origin: SECURE_ORIGIN },
+    );
+    expect((await probeHost(api, portalOnly)).verdict).toBe("unreachable");
+  });
+
+  it("uses the target's own check instead of fetch", async () => {
+    const chilli: HostTarget = {
+      id: "chilli",
+      url: "http://192.168.182.1:3990/json/status",
+      check: () => Promise.resolve({ clientState: 0 }),
+    };
+    const probe = options(fail);
+    expect((await probeHost(chilli, probe)).verdict).toBe("healthy");
+    expect(probe.fetch).not.toHaveBeenCalled();
+
+    chilli.check = () =>
+      Promise.reject(new Error("Hotspot router JSON interface unreachable."));
+    const result = await probeHost(chilli, probe);
+    expect(result.verdict).toBe("unreachable");
+    expect(result.name).toBe("192.168.182.1:3990");
+  });
+
+  it("times out a check that never settles", async () => {
+    const chilli: HostTarget = {
+      id: "chilli",
+      url: "http://192.168.182.1:3990/json/status",
+      check: () => new Promise(() => {}),
+    };
+    expect((await probeHost(chilli, options(fail))).verdict).toBe("timeout");
+  });
+});
+
+describe("runDetection", () => {
+  it("reports the hosts before the bridges", async () => {
+    const results = await runDetection(
+      [bridge("direct")],
+      options(() => json(PLANS), {
+        hosts: [{ id: "api", url: "https://device.onetel.co.za/" }],
+      }),
+    );
+    expect(results.map(({ scope, id }) => `${scope}:${id}`)).toEqual([
+      "host:api",
+      "bridge:direct",
+    ]);
+  });
+});
@@ -0,0 +1,395 @@
+import { BridgeAdapter, RELAY_ERROR_HEADER } from "./transport";
+import { subscriptionsEndpoint } from "./config";
+import { getChilliStatus } from "./chilli";
+import { chilliBaseUrl } from "./hotspot";
+import { HotspotContext } from "../types";
+import { PORTAL_URL } from "../constants";
+import { MessageKey } from "../i18n";
+
+/**
+ * CONNECTIVITY DETECTOR: Probes each bridge, and the hosts behind them,
+ * and works out why they fail. Browsers hide the network error behind one
+ * TypeError, so the verdict comes from what we can observe: whether a CORS
+ * fetch answers, whether a no-cors fetch still gets through, whether a
+ * known-good host answers where this one does not, what came back, how
+ * long it took, and whether the hotspot still holds the device.
+ */
+export type ProbeVerdict =
+  | "healthy"
+  | "walled_garden"
+  | "dns"
+  | "unreachable"
+  | "tls"
+  | "intercepted"
+  | "upstream"
+  | "cors"
+  | "timeout";
+
+export interface ProbeResult {
+  // Bridge id, or the host target id for direct probes
+  id: string;
+  scope: "bridge" | "host";
+  name: string;
+  verdict: ProbeVerdict;
+  latency: number;
+  // What was observed, for the logs panel
+  detail: string;
+}
+
+/**
+ * A host probed directly rather than through a bridge. `check` replaces
+ * the fetch where the host cannot be fetched, like Chilli's JSONP API.
+ */
+export interface HostTarget {
+  id: "portal" | "api" | "chilli";
+  url: string;
+  check?: () => Promise<unknown>;
+}
+
+export interface DetectorOptions {
+  // Stub this in tests; defaults to the global fetch
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  // Public JSON endpoint every bridge should be able to reach
+  target?: string;
+  // True until Chilli has logged the device on; unlisted hosts are refused
+  walledGarden?: boolean;
+  // Hosts in uamallowed, which Chilli lets through before logon
+  allowedHosts?: string[];
+  // Probed alongside the bridges
+  hosts?: HostTarget[];
+  // Known-good HTTPS host a failure is compared with; the portal's own
+  referenceUrl?: string;
+  // Where the probes run from; defaults to this page
+  origin?: string;
+}
+
+export const PROBE_TIMEOUT_MS = 4000;
+
+export const VERDICT_LABELS: Record<ProbeVerdict, MessageKey> = {
+  healthy: "detector.healthy",
+  walled_garden: "detector.walledGarden",
+  dns: "detector.dns",
+  unreachable: "detector.unreachable",
+  tls: "detector.tls",
+  intercepted: "detector.intercepted",
+  upstream: "detector.upstream",
+  cors: "detector.cors",
+  timeout: "detector.timeout",
+};
+
+// Nothing to advise when a bridge is healthy
+export const VERDICT_GUIDANCE: Partial<Record<ProbeVerdict, MessageKey>> = {
+  walled_garden: "detector.walledGardenHint",
+  dns: "detector.dnsHint",
+  unreachable: "detector.unreachableHint",
+  tls: "detector.tlsHint",
+  intercepted: "detector.interceptedHint",
+  upstream: "detector.upstreamHint",
+  cors: "detector.corsHint",
+  timeout: "detector.timeoutHint",
+};
+
+// The plan list is public and always JSON, even when it is empty
+const defaultTarget = () => `${subscriptionsEndpoint()}plan/`;
+
+/**
+ * The portal's own host, the OpenWISP host and Chilli, so a report shows
+ * whether a failing bridge is the problem or everything behind it is.
+ */
+export const hostTargets = (
+  apiHost: string,
+  hotspot: HotspotContext,
+): HostTarget[] => [
+  { id: "portal", url: PORTAL_URL },
+  { id: "api", url: `${apiHost}/` },
+  {
+    id: "chilli",
+    url: `${chilliBaseUrl(hotspot)}/json/status`,
+    check: () => getChilliStatus(hotspot),
+  },
+];
+
+type Outcome =
+  | { kind: "response"; response: Response }
+  | { kind: "error"; error: Error }
+  | { kind: "timeout" };
+
+interface Judgement {
+  verdict: ProbeVerdict;
+  detail: string;
+}
+
+const timedFetch = async (
+  doFetch: typeof fetch,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<Outcome> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await doFetch(url, {
+      ...init,
+      cache: "no-store",
+      credentials: "omit",
+      signal: controller.signal,
+    });
+    return { kind: "response", response };
+  } catch (err: any) {
+    if (controller.signal.aborted) return { kind: "timeout" };
+    return { kind: "error", error: err };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const timedCheck = async (
+  check: () => Promise<unknown>,
+  timeoutMs: number,
+): Promise<Exclude<Outcome, { kind: "response" }> | null> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<{ kind: "timeout" }>((resolve) => {
+    timer = setTimeout(() => resolve({ kind: "timeout" }), timeoutMs);
+  });
+  try {
+    return await Promise.race([check().then(() => null), timeout]);
+  } catch (err: any) {
+    return { kind: "error", error: err };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * A reply reached us. OpenWISP (directly or unwrapped from a bridge)
+ * always answers JSON below 500; a refusal from our relay, a 5xx or an
+ * error page means the bridge could not reach OpenWISP, and a non-JSON
+ * success was written by whoever sat in the middle.
+ */
+const judgeResponse = async (
+  bridge: BridgeAdapter,
+  response: Response,
+  probeUrl: string,
+): Promise<Judgement> => {
+  if (
+    response.redirected &&
+    new URL(response.url).host !== new URL(probeUrl).host
+  ) {
+    return {
+      verdict: "intercepted",
+      detail: `Redirected to ${new URL(response.url).host}`,
+    };
+  }
+  const relayError = response.headers.get(RELAY_ERROR_HEADER);
+  if (relayError) {
+    return { verdict: "upstream", detail: `Relay refused: ${relayError}` };
+  }
+
+  const type = response.headers.get("content-type") || "unknown type";
+  const upstream = (status: number): Judgement => ({
+    verdict: "upstream",
+    detail:
+      bridge.kind === "direct"
+        ? `OpenWISP answered ${status}`
+        : `Bridge answered ${status} without reaching OpenWISP`,
+  });
+
+  let reply: Response;
+  try {
+    reply = await bridge.parseResponse(response);
+  } catch (err: any) {
+    // A tunnel that answers in its own JSON wrapper is up, just empty-handed
+    return response.status >= 400 || type.includes("json")
+      ? { verdict: "upstream", detail: err.message }
+      : {
+          verdict: "intercepted",
+          detail: `Status ${response.status}, ${type} instead of JSON`,
+        };
+  }
+  if (reply.status >= 500) return upstream(reply.status);
+  try {
+    JSON.parse(await reply.text());
+    return { verdict: "healthy", detail: `Status ${reply.status}` };
+  } catch {
+    if (reply.status >= 400) return upstream(reply.status);
+    return {
+      verdict: "intercepted",
+      detail: `Status ${reply.status}, ${type} instead of JSON`,
+    };
+  }
+};
+
+// An https: page may not fetch plain HTTP, not even opaquely
+const mayFetchPlainHttp = (options: DetectorOptions) =>
+  new URL(options.origin ?? globalThis.location?.href ?? PORTAL_URL)
+    .protocol === "http:";
+
+/**
+ * Neither fetch got through. Before logon Chilli refuses hosts missing from
+ * uamallowed. From an http: page, plain HTTP reaching the host where HTTPS
+ * cannot means a middlebox is presenting its own certificate. Otherwise
+ * the reference host tells a dead network (`dns`) from a failure of this
+ * host alone, whose cause the browser does not reveal (`unreachable`).
+ */
+const judgeUnreachable = async (
+  url: string,
+  error: Error,
+  doFetch: typeof fetch,
+  options: DetectorOptions,
+  timeoutMs: number,
+): Promise<Judgement> => {
+  const { protocol, host, hostname } = new URL(url);
+  const listed = (name: string) => (options.allowedHosts ?? []).includes(name);
+  if (options.walledGarden && !listed(hostname)) {
+    return {
+      verdict: "walled_garden",
+      detail: `Refused before logon (${error.message})`,
+    };
+  }
+  if (protocol === "https:" && mayFetchPlainHttp(options)) {
+    const plain = await timedFetch(
+      doFetch,
+      `http://${host}/`,
+      { mode: "no-cors" },
+      timeoutMs,
+    );
+    if (plain.kind === "response") {
+      return {
+        verdict: "tls",
+        detail: `Plain HTTP answers, HTTPS fails (${error.message})`,
+      };
+    }
+  }
+
+  // Useless when it is this host, or when the walled garden refuses it
+  const reference = new URL(options.referenceUrl ?? PORTAL_URL);
+  const comparable =
+    reference.host !== host &&
+    (!options.walledGarden || listed(reference.hostname));
+  if (comparable) {
+    const known = await timedFetch(
+      doFetch,
+      reference.href,
+      { mode: "no-cors" },
+      timeoutMs,
+    );
+    if (known.kind === "response") {
+      return {
+        verdict: "unreachable",
+        detail: `${reference.host} answers, this host does not (${error.message})`,
+      };
+    }
+    if (known.kind === "error") {
+      return {
+        verdict: "dns",
+        detail: `Not even ${reference.host} answers (${error.message})`,
+      };
+    }
+  }
+  return { verdict: "unreachable", detail: `Unreachable (${error.message})` };
+};
+
+const timedOut = (timeoutMs: number): Judgement => ({
+  verdict: "timeout",
+  detail: `No answer within ${timeoutMs}ms`,
+});
+
+export const probeBridge = async (
+  bridge: BridgeAdapter,
+  options: DetectorOptions = {},
+): Promise<ProbeResult> => {
+  const doFetch = options.fetch ?? fetch.bind(globalThis);
+  const timeoutMs = options.timeoutMs ?? PROBE_TIMEOUT_MS;
+  const url = bridge.probeUrl(options.target ?? defaultTarget());
+  const start = Date.now();
+  const result = ({ verdict, detail }: Judgement): ProbeResult => ({
+    id: bridge.id,
+    scope: "bridge",
+    name: bridge.name,
+    verdict,
+    latency: Date.now() - start,
+    detail,
+  });
+
+  const cors = await timedFetch(doFetch, url, { mode: "cors" }, timeoutMs);
+  if (cors.kind === "timeout") return result(timedOut(timeoutMs));
+  if (cors.kind === "response") {
+    return result(await judgeResponse(bridge, cors.response, url));
+  }
+
+  // The CORS fetch failed. If an opaque fetch gets through, the host is
+  // reachable and only the CORS headers are missing.
+  const opaque = await timedFetch(doFetch, url, { mode: "no-cors" }, timeoutMs);
+  if (opaque.kind === "response") {
+    return result({
+      verdict: "cors",
+      detail: `Reachable, but no CORS headers (${cors.error.message})`,
+    });
+  }
+  if (opaque.kind === "timeout") return result(timedOut(timeoutMs));
+  return result(
+    await judgeUnreachable(url, opaque.error, doFetch, options, timeoutMs),
+  );
+};
+
+/**
+ * Reachability only: an opaque reply proves the connection and handshake
+ * worked, which is all a host probe asks.
+ */
+export const probeHost = async (
+  target: HostTarget,
+  options: DetectorOptions = {},
+): Promise<ProbeResult> => {
+  const doFetch = options.fetch ?? fetch.bind(globalThis);
+  const timeoutMs = options.timeoutMs ?? PROBE_TIMEOUT_MS;
+  const start = Date.now();
+  const result = ({ verdict, detail }: Judgement): ProbeResult => ({
+    id: target.id,
+    scope: "host",
+    name: new URL(target.url).host,
+    verdict,
+    latency: Date.now() - start,
+    detail,
+  });
+
+  if (target.check) {
+    const failure = await timedCheck(target.check, timeoutMs);
+    if (!failure) return result({ verdict: "healthy", detail: "Answered" });
+    if (failure.kind === "timeout") return result(timedOut(timeoutMs));
+    return result({
+      verdict: "unreachable",
+      detail: `Unreachable (${failure.error.message})`,
+    });
+  }
+
+  const outcome = await timedFetch(
+    doFetch,
+    target.url,
+    { mode: "no-cors" },
+    timeoutMs,
+  );
+  if (outcome.kind === "response") {
+    return result({ verdict: "healthy", detail: "Reachable" });
+  }
+  if (outcome.kind === "timeout") return result(timedOut(timeoutMs));
+  return result(
+    await judgeUnreachable(
+      target.url,
+      outcome.error,
+      doFetch,
+      options,
+      timeoutMs,
+    ),
+  );
+};
+
+// Hosts first, so a report reads from the network outwards
+export const runDetection = async (
+  bridges: BridgeAdapter[],
+  options: DetectorOptions = {},
+): Promise<ProbeResult[]> =>
+  Promise.all([
+    ...(options.hosts ?? []).map((host) => probeHost(host, options)),
+    ...bridges.map((bridge) => probeBridge(bridge, options)),
+  ]);
@@ -0,0 +1,194 @@
+import { ApiErrorBody } from "../types";
+
+export type ApiErrorKind =
+  | "network"
+  | "bridge_exhausted"
+  | "untrusted_bridge"
+  | "cancelled"
+  | "validation"
+  | "auth"
+  | "throttle";
+
+export interface BridgeAttempt {
+  bridge: string;
+  error: string;
+  timestamp: string;
+}
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status: number | null;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    status: number | null = null,
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+/**
+ * The device itself is offline, nothing was sent.
+ */
+export class NetworkError extends ApiError {
+  constructor(message = "This device is not connected to the network.") {
+    super("network", message);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Every bridge was tried and none produced an upstream reply. Usually the
+ * bridge hosts are missing from the walled garden or the router hijacked
+ * the HTTPS request.
+ */
+export class BridgeExhaustedError extends ApiError {
+  attempts: BridgeAttempt[];
+
+  constructor(attempts: BridgeAttempt[]) {
+    super(
+      "bridge_exhausted",
+      "All access paths blocked. Please check Walled Garden settings.",
+    );
+    this.name = "BridgeExhaustedError";
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * The caller aborted the request (the user pressed cancel). Not an error
+ * worth showing.
+ */
+export class CancelledError extends ApiError {
+  constructor(message = "Request cancelled.") {
+    super("cancelled", message);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * Only third-party bridges could reach OpenWISP and the user chose not to
+ * send their credentials through them. Nothing was sent.
+ */
+export class UntrustedBridgeError extends ApiError {
+  attempts: BridgeAttempt[];
+
+  constructor(attempts: BridgeAttempt[]) {
+    super(
+      "untrusted_bridge",
+      "Not sent: only public proxies are reachable from this network.",
+    );
+    this.name = "UntrustedBridgeError";
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * DRF 400: field errors keyed by payload field, plus non_field_errors.
+ */
+export class ValidationError extends ApiError {
+  fieldErrors: Record<string, string>;
+  nonFieldErrors: string[];
+
+  constructor(status: number, body: ApiErrorBody) {
+    const fieldErrors: Record<string, string> = {};
+    const nonFieldErrors: string[] = [];
+
+    Object.entries(body).forEach(([field, value]) => {
+      const messages = flattenMessages(value);
+      if (!messages.length) return;
+      if (field === "detail" || field === "non_field_errors") {
+        nonFieldErrors.push(...messages);
+      } else {
+        fieldErrors[field] = messages.join(" ");
+      }
+    });
+
+    super(
+      "validation",
+      nonFieldErrors.join(" ") || "Please correct the highlighted fields.",
+      status,
+    );
+    this.name = "ValidationError";
+    this.fieldErrors = fieldErrors;
+    this.nonFieldErrors = nonFieldErrors;
+  }
+}
+
+export class AuthError extends ApiError {
+  constructor(status: number, message: string) {
+    super("auth", message, status);
+    this.name = "AuthError";
+  }
+}
+
+export class ThrottleError extends ApiError {
+  retryAfter: number | null;
+
+  constructor(message: string, retryAfter: number | null) {
+    super("throttle", message, 429);
+    this.name = "ThrottleError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+const flattenMessages = (value: unknown): string[] => {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(flattenMessages);
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(flattenMessages);
+  }
+  return [];
+};
+
+// DRF "Expected available in N seconds." / OpenWISP "Try again in N seconds."
+const secondsInText = (text: string): number | null => {
+  const match = text.match(/(\d+)\s*seconds?/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+const parseRetryAfter = (headers: Headers, detail = ""): number | null => {
+  const header = parseInt(headers.get("Retry-After") || "", 10);
+  if (Number.isFinite(header)) return header;
+  return secondsInText(detail);
+};
+
+/**
+ * How long the server asked us to wait, if it said so. OpenWISP reports SMS
+ * cooldowns as a 400 rather than a 429, so validation messages count too.
+ */
+export const retryAfterSeconds = (err: unknown): number | null => {
+  if (err instanceof ThrottleError) return err.retryAfter;
+  if (err instanceof ValidationError) return secondsInText(err.message);
+  return null;
+};
+
+/**
+ * Maps an upstream 4xx reply from OpenWISP onto the error hierarchy.
+ */
+export const toApiError = (
+  response: Response,
+  body: ApiErrorBody,
+): ApiError => {
+  const detail = flattenMessages(body.detail).join(" ");
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new AuthError(
+        response.status,
+        detail || "Your session has expired. Please sign in again.",
+      );
+    case 429:
+      return new ThrottleError(
+        detail || "Too many attempts. Please wait and try again.",
+        parseRetryAfter(response.headers, detail),
+      );
+    default:
+      return new ValidationError(response.status, body);
+  }
+};
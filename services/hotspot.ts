@@ -0,0 +1,53 @@
+import { ChilliResult, HotspotContext } from "../types";
+import {
+  DEFAULT_UAM_IP,
+  DEFAULT_UAM_PORT,
+  DEFAULT_USER_URL,
+} from "../constants";
+
+const RESULTS: ChilliResult[] = [
+  "notyet",
+  "success",
+  "failed",
+  "logoff",
+  "already",
+];
+
+/**
+ * REDIRECT PARSER: Reads the query string CoovaChilli appends when it
+ * bounces a client to the portal (uamip, uamport, res, reply, mac, ...).
+ * Unknown `res` values (popup1, none, ...) are treated as "notyet".
+ */
+export const parseHotspotContext = (
+  search: string = window.location.search,
+): HotspotContext => {
+  const params = new URLSearchParams(search);
+  const get = (key: string) => params.get(key)?.trim() || "";
+
+  const res = get("res") as ChilliResult;
+  const timeleft = parseInt(get("timeleft"), 10);
+
+  return {
+    res: RESULTS.includes(res) ? res : "notyet",
+    reply: get("reply"),
+    uamip: get("uamip") || DEFAULT_UAM_IP,
+    uamport: get("uamport") || DEFAULT_UAM_PORT,
+    challenge: get("challenge"),
+    mac: get("mac"),
+    ip: get("ip"),
+    called: get("called"),
+    nasid: get("nasid"),
+    userurl: get("userurl"),
+    sessionid: get("sessionid"),
+    timeleft: Number.isFinite(timeleft) ? timeleft : null,
+  };
+};
+
+/**
+ * Where the user was headed before Chilli intercepted them.
+ */
+export const resolveUserUrl = (ctx: HotspotContext): string =>
+  /^https?:\/\//i.test(ctx.userurl) ? ctx.userurl : DEFAULT_USER_URL;
+
+export const chilliBaseUrl = (ctx: HotspotContext): string =>
+  `http://${ctx.uamip}:${ctx.uamport}`;
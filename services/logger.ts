@@ -0,0 +1,129 @@
+/**
+ * REQUEST LOG: A capped, levelled record of what the portal did, kept in
+ * memory so support staff can read it off the customer's phone. Secrets
+ * are redacted on the way in, so nothing sensitive is ever stored.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogEntry {
+  time: number;
+  level: LogLevel;
+  // Which part of the portal wrote it: api, hotspot, diagnostics, ...
+  source: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+const MAX_ENTRIES = 200;
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+// Keys whose values never make it into the log
+const SECRET_KEYS =
+  /pass(word)?|token|key|secret|authorization|code|response|payload/i;
+const REDACTED = "[redacted]";
+
+let entries: LogEntry[] = [];
+const listeners = new Set<() => void>();
+
+const redactText = (text: string): string =>
+  text
+    .replace(/(Bearer\s+)\S+/gi, `$1${REDACTED}`)
+    .replace(
+      /([?&](?:password|token|key|code|response|payload)=)[^&\s]+/gi,
+      `$1${REDACTED}`,
+    );
+
+export const redact = (value: unknown, key = ""): unknown => {
+  if (key && SECRET_KEYS.test(key) && value !== null && value !== "") {
+    return REDACTED;
+  }
+  if (typeof value === "string") return redactText(value);
+  if (Array.isArray(value)) return value.map((item) => redact(item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, redact(v, k)]),
+    );
+  }
+  return value;
+};
+
+export const log = (
+  level: LogLevel,
+  source: string,
+  message: string,
+  data?: Record<string, unknown>,
+) => {
+  const entry: LogEntry = {
+    time: Date.now(),
+    level,
+    source,
+    message: redactText(message),
+    data: data && (redact(data) as Record<string, unknown>),
+  };
+  entries = [...entries, entry].slice(-MAX_ENTRIES);
+  (console[level] ?? console.log)(
+    `[${source}] ${entry.message}`,
+    entry.data ?? "",
+  );
+  listeners.forEach((listener) => listener());
+};
+
+export const logger = {
+  log,
+  debug: (source: string, message: string, data?: Record<string, unknown>) =>
+    log("debug", source, message, data),
+  info: (source: string, message: string, data?: Record<string, unknown>) =>
+    log("info", source, message, data),
+  warn: (source: string, message: string, data?: Record<string, unknown>) =>
+    log("warn", source, message, data),
+  error: (source: string, message: string, data?: Record<string, unknown>) =>
+    log("error", source, message, data),
+};
+
+export const getLogs = (minLevel: LogLevel = "debug"): LogEntry[] =>
+  entries.filter(
+    (entry) => LEVELS.indexOf(entry.level) >= LEVELS.indexOf(minLevel),
+  );
+
+export const clearLogs = () => {
+  entries = [];
+  listeners.forEach((listener) => listener());
+};
+
+// Returns the unsubscribe function, in the shape useEffect expects
+export const subscribeLogs = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const formatEntry = (entry: LogEntry): string => {
+  const time = new Date(entry.time).toISOString().slice(11, 19);
+  const data = entry.data ? ` ${JSON.stringify(entry.data)}` : "";
+  return `${time} ${entry.level.toUpperCase()} ${entry.source}: ${entry.message}${data}`;
+};
+
+/**
+ * REPORT: Plain text for copying into a support ticket, newest last.
+ * `maxLength` keeps the newest lines that fit, for QR codes.
+ */
+export const formatReport = (
+  header: Record<string, string>,
+  logEntries: LogEntry[] = getLogs(),
+  maxLength = Infinity,
+): string => {
+  const head = Object.entries(header).map(([k, v]) => `${k}: ${v}`);
+  const lines = logEntries.map(formatEntry);
+  let body = lines;
+  let report = [...head, "", ...body].join("\n");
+  while (report.length > maxLength && body.length) {
+    body = body.slice(1);
+    report = [
+      ...head,
+      `(${lines.length - body.length} older lines cut)`,
+      ...body,
+    ].join("\n");
+  }
+  return report.slice(0, maxLength);
+};
@@ -0,0 +1,124 @@
+import { PaymentIntent, PaymentStatus, PlanPricing } from "../types";
+import { PAYMENT_PROVIDER } from "../constants";
+import { startPayment, getPaymentStatus } from "./api";
+
+/**
+ * PAYMENT PROVIDERS: Anything that can turn a plan pricing into a paid
+ * subscription. `start` may hand back a hosted checkout URL; the provider
+ * then redirects back with ?payment=<id>&payment_status=<status>.
+ */
+export interface PaymentProvider {
+  id: string;
+  name: string;
+  start(
+    token: string,
+    pricing: PlanPricing,
+    returnUrl: string,
+  ): Promise<PaymentIntent>;
+  status(token: string, intent: PaymentIntent): Promise<PaymentIntent>;
+}
+
+const STATUSES: PaymentStatus[] = [
+  "pending",
+  "complete",
+  "failed",
+  "cancelled",
+];
+
+const toStatus = (value: unknown): PaymentStatus =>
+  STATUSES.includes(value as PaymentStatus)
+    ? (value as PaymentStatus)
+    : "pending";
+
+const openwispProvider: PaymentProvider = {
+  id: "openwisp",
+  name: "OpenWISP Subscriptions",
+  start: async (token, pricing, returnUrl) => {
+    const response = await startPayment(token, pricing.id, returnUrl);
+    const data = await response.json();
+    return {
+      id: String(data.id),
+      status: toStatus(data.status),
+      pricingId: pricing.id,
+      paymentUrl: data.payment_url,
+      message: data.message,
+    };
+  },
+  status: async (token, intent) => {
+    const response = await getPaymentStatus(token, intent.id);
+    const data = await response.json();
+    return { ...intent, status: toStatus(data.status), message: data.message };
+  },
+};
+
+// Settles every payment a few seconds after it starts; free plans settle at once
+const MOCK_SETTLE_MS = 4000;
+const mockPayments = new Map<string, number>();
+
+const mockProvider: PaymentProvider = {
+  id: "mock",
+  name: "Mock Payments",
+  start: async (_token, pricing) => {
+    const id = `mock-${Date.now()}`;
+    mockPayments.set(id, Date.now());
+    return {
+      id,
+      status: pricing.requires_payment ? "pending" : "complete",
+      pricingId: pricing.id,
+    };
+  },
+  status: async (_token, intent) => {
+    const started = mockPayments.get(intent.id) ?? 0;
+    return {
+      ...intent,
+      status: Date.now() - started >= MOCK_SETTLE_MS ? "complete" : "pending",
+    };
+  },
+};
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  [openwispProvider.id]: openwispProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+export const registerPaymentProvider = (provider: PaymentProvider) => {
+  PROVIDERS[provider.id] = provider;
+};
+
+export const getPaymentProvider = (
+  id: string = PAYMENT_PROVIDER,
+): PaymentProvider => PROVIDERS[id] ?? openwispProvider;
+
+/**
+ * CALLBACK: Reads the provider's return parameters, if this page load is one.
+ */
+export const parsePaymentCallback = (
+  search: string = window.location.search,
+): PaymentIntent | null => {
+  const params = new URLSearchParams(search);
+  const id = params.get("payment");
+  if (!id) return null;
+  return {
+    id,
+    status: toStatus(params.get("payment_status")),
+    pricingId: params.get("plan_pricing") || "",
+  };
+};
+
+/**
+ * Strips the callback parameters so a reload does not replay the payment,
+ * while keeping Chilli's redirect parameters intact.
+ */
+export const clearPaymentCallback = () => {
+  const url = new URL(window.location.href);
+  ["payment", "payment_status", "plan_pricing"].forEach((key) =>
+    url.searchParams.delete(key),
+  );
+  window.history.replaceState(null, "", url.toString());
+};
+
+export const buildPaymentReturnUrl = (pricingId: string): string => {
+  const url = new URL(window.location.href);
+  url.searchParams.set("plan_pricing", pricingId);
+  return url.toString();
+};
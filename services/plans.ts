@@ -0,0 +1,53 @@
+import { Plan, PlanPricing } from "../types";
+import { getPlans } from "./api";
+import { getVenueConfig } from "./config";
+
+/**
+ * CATALOGUE: The endpoint lists one entry per price point; group them by
+ * plan so each plan shows once with its pricing options. Venues can narrow
+ * the catalogue to their own pricing ids.
+ */
+export const fetchPlanCatalogue = async (): Promise<Plan[]> => {
+  const response = await getPlans();
+  const pricings: PlanPricing[] = await response.json();
+  const offered = getVenueConfig().plans;
+  const plans = new Map<string, Plan>();
+  pricings.forEach((pricing) => {
+    if (offered.length && !offered.includes(pricing.id)) return;
+    const plan = plans.get(pricing.plan) ?? {
+      name: pricing.plan,
+      description: pricing.plan_description,
+      pricings: [],
+    };
+    plan.pricings.push(pricing);
+    plans.set(pricing.plan, plan);
+  });
+  return [...plans.values()];
+};
+
+export const allPricings = (plans: Plan[]): PlanPricing[] =>
+  plans.flatMap((plan) => plan.pricings);
+
+/**
+ * The plan endpoint has no structured quota, so the data cap is read from
+ * the description ("300 MB per day", "1.5GB").
+ */
+export const planDataCap = (pricing: PlanPricing): string | null => {
+  const match = pricing.plan_description.match(/(\d+(?:\.\d+)?)\s*(MB|GB|TB)/i);
+  return match ? `${match[1]} ${match[2].toUpperCase()}` : null;
+};
+
+/**
+ * VENUE DEFAULT: The venue's configured plan if the catalogue offers it,
+ * otherwise the first free plan. Without a catalogue the configured plan
+ * is used as-is.
+ */
+export const resolveDefaultPricing = (plans: Plan[] = []): string => {
+  const configured = getVenueConfig().defaultPlan;
+
+  const pricings = allPricings(plans);
+  if (!pricings.length || pricings.some((p) => p.id === configured)) {
+    return configured;
+  }
+  return (pricings.find((p) => !p.requires_payment) ?? pricings[0]).id;
+};
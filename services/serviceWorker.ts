@@ -0,0 +1,15 @@
+import { logger } from "./logger";
+
+/**
+ * OFFLINE SHELL: Registered after the first successful render, so the
+ * worker only ever caches a portal that actually worked. First-ever visits
+ * still rely on the fallback message in index.html.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  navigator.serviceWorker
+    .register("./sw.js")
+    .catch((err) =>
+      logger.warn("sw", `Service worker not registered: ${err.message}`),
+    );
+};
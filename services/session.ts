@@ -0,0 +1,29 @@
+import { StoredSession } from "../types";
+import { SESSION_TTL_MS } from "../constants";
+import { getJson, setJson, removeItem } from "../utils/storage";
+
+const SESSION_KEY = "onetel.session";
+
+/**
+ * SESSION STORE: Keeps the OpenWISP token (and the RADIUS token Chilli can
+ * log on with) so a reloaded portal can skip straight to usage.
+ */
+export const saveSession = (
+  session: Omit<StoredSession, "expiresAt">,
+): StoredSession => {
+  const stored = { ...session, expiresAt: Date.now() + SESSION_TTL_MS };
+  setJson(SESSION_KEY, stored);
+  return stored;
+};
+
+export const loadSession = (): StoredSession | null => {
+  const session = getJson<StoredSession>(SESSION_KEY);
+  if (!session?.token || !session.expiresAt) return null;
+  if (session.expiresAt <= Date.now()) {
+    clearSession();
+    return null;
+  }
+  return session;
+};
+
+export const clearSession = () => removeItem(SESSION_KEY);
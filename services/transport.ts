@@ -0,0 +1,259 @@
+import { logger } from "./logger";
+
+export type BridgeKind = "direct" | "tunnel" | "proxy" | "relay";
+
+/**
+ * Declarative bridge definition. Operators can append their own through
+ * VITE_EXTRA_BRIDGES (a JSON array of these) at build time.
+ */
+export interface BridgeConfig {
+  id: string;
+  name: string;
+  kind: BridgeKind;
+  url?: string;
+}
+
+export interface BridgeRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface BridgeAdapter extends BridgeConfig {
+  buildRequest(targetUrl: string, options: RequestInit): BridgeRequest;
+  parseResponse(response: Response): Promise<Response>;
+  probeUrl(targetUrl: string): string;
+}
+
+export interface BridgeHealth {
+  successRate: number;
+  latency: number;
+  samples: number;
+  lastOk: boolean | null;
+}
+
+// Build-time settings that shape the bridge list
+export interface BridgeEnv {
+  VITE_RELAY_URL?: string;
+  VITE_EXTRA_BRIDGES?: string;
+}
+
+/**
+ * Built-in bridges, most preferred first. The relay (relay/server.ts) leads
+ * because it is the only one that keeps credentials off third-party servers.
+ */
+export const builtInBridges = (relayUrl?: string): BridgeConfig[] => [
+  ...(relayUrl
+    ? [
+        {
+          id: "relay",
+          name: "Onetel Relay",
+          kind: "relay" as const,
+          url: relayUrl,
+        },
+      ]
+    : []),
+  {
+    id: "allorigins",
+    name: "Rescue Shadow (AllOrigins)",
+    kind: "tunnel",
+    url: "https://api.allorigins.win/get?url=",
+  },
+  {
+    id: "codetabs",
+    name: "Mirror Path (Codetabs)",
+    kind: "proxy",
+    url: "https://api.codetabs.com/v1/proxy/?quest=",
+  },
+  { id: "direct", name: "Direct Cloud", kind: "direct" },
+];
+
+// Weight of the newest sample in the rolling averages
+const HEALTH_ALPHA = 0.3;
+const UNKNOWN_HEALTH: BridgeHealth = {
+  successRate: 0.5,
+  latency: 0,
+  samples: 0,
+  lastOk: null,
+};
+
+// Set by relay/ on its own refusals, as opposed to OpenWISP's replies
+export const RELAY_ERROR_HEADER = "X-Relay-Error";
+
+/**
+ * ADAPTERS: Each bridge kind knows how to wrap a request and unwrap the reply
+ */
+const ADAPTER_FACTORIES: Record<
+  BridgeKind,
+  (config: BridgeConfig) => BridgeAdapter
+> = {
+  direct: (config) => ({
+    ...config,
+    buildRequest: (targetUrl, options) => ({
+      url: targetUrl,
+      init: {
+        ...options,
+        headers: { ...options.headers, "Content-Type": "application/json" },
+      },
+    }),
+    parseResponse: async (response) => response,
+    probeUrl: (targetUrl) => targetUrl,
+  }),
+
+  // AllOrigins: GET only, so POST bodies ride along as a `payload` parameter
+  // and the upstream body comes back wrapped in `{ contents }`.
+  tunnel: (config) => ({
+    ...config,
+    buildRequest: (targetUrl, options) => {
+      let url = `${config.url}${encodeURIComponent(targetUrl)}`;
+      if (options.method === "POST" && options.body) {
+        url += `&payload=${encodeURIComponent(options.body as string)}`;
+      }
+      const { body: _body, ...rest } = options;
+      return {
+        url,
+        init: {
+          ...rest,
+          method: "GET",
+          headers: { Accept: "application/json" },
+        },
+      };
+    },
+    parseResponse: async (response) => {
+      const wrapper = await response.json();
+      if (!wrapper.contents) {
+        throw new Error(`Empty tunnel reply (status ${response.status})`);
+      }
+      return new Response(wrapper.contents, {
+        status: wrapper.status?.http_code || 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+    probeUrl: (targetUrl) => `${config.url}${encodeURIComponent(targetUrl)}`,
+  }),
+
+  // Public prefix proxies: text/plain keeps it a "simple request" so the
+  // browser skips the OPTIONS preflight these proxies do not answer.
+  proxy: (config) => ({
+    ...config,
+    buildRequest: (targetUrl, options) => ({
+      url: `${config.url}${encodeURIComponent(targetUrl)}`,
+      init: { ...options, headers: { "Content-Type": "text/plain" } },
+    }),
+    parseResponse: async (response) => response,
+    probeUrl: (targetUrl) => `${config.url}${encodeURIComponent(targetUrl)}`,
+  }),
+
+  // Self-hosted CORS relay: answers preflights, so headers pass through intact
+  relay: (config) => ({
+    ...config,
+    buildRequest: (targetUrl, options) => ({
+      url: `${config.url}${encodeURIComponent(targetUrl)}`,
+      init: {
+        ...options,
+        headers: { ...options.headers, "Content-Type": "application/json" },
+      },
+    }),
+    parseResponse: async (response) => response,
+    probeUrl: (targetUrl) => `${config.url}${encodeURIComponent(targetUrl)}`,
+  }),
+};
+
+const createAdapter = (config: BridgeConfig): BridgeAdapter | null => {
+  const factory = ADAPTER_FACTORIES[config.kind];
+  if (!config.id || !config.name || !factory) return null;
+  if (config.kind !== "direct" && !config.url) return null;
+  return factory(config);
+};
+
+const parseExtraBridges = (raw?: string): BridgeConfig[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err: any) {
+    logger.warn(
+      "transport",
+      `Ignoring malformed VITE_EXTRA_BRIDGES: ${err.message}`,
+    );
+    return [];
+  }
+};
+
+/**
+ * REGISTRY: Operator bridges first, then the built-in ones. The registration
+ * order is only the tie-breaker; health decides the actual attempt order.
+ */
+const registry: BridgeAdapter[] = [];
+const health = new Map<string, BridgeHealth>();
+
+export const registerBridge = (config: BridgeConfig): boolean => {
+  const adapter = createAdapter(config);
+  if (!adapter) {
+    logger.warn("transport", `Ignoring invalid bridge config "${config.id}"`);
+    return false;
+  }
+  const existing = registry.findIndex((b) => b.id === adapter.id);
+  if (existing >= 0) registry[existing] = adapter;
+  else registry.push(adapter);
+  return true;
+};
+
+/**
+ * Everything a build with this env registers, operator bridges first. The
+ * walled-garden generator reads the same list, so the two can't disagree.
+ */
+export const configuredBridges = (env: BridgeEnv): BridgeConfig[] => [
+  ...parseExtraBridges(env.VITE_EXTRA_BRIDGES),
+  ...builtInBridges(env.VITE_RELAY_URL),
+];
+
+const BUILD_ENV: BridgeEnv = import.meta.env ?? {};
+
+configuredBridges(BUILD_ENV).forEach(registerBridge);
+
+export const getBridgeHealth = (id: string): BridgeHealth =>
+  health.get(id) ?? UNKNOWN_HEALTH;
+
+/**
+ * Higher is better: reliability dominates, latency (capped at 5s) breaks
+ * ties between equally reliable bridges.
+ */
+export const scoreBridge = (id: string): number => {
+  const h = getBridgeHealth(id);
+  return h.successRate * 100 - Math.min(h.latency, 5000) / 100;
+};
+
+export const recordBridgeResult = (
+  id: string,
+  ok: boolean,
+  latency: number,
+) => {
+  const prev = health.get(id);
+  if (!prev) {
+    health.set(id, {
+      successRate: ok ? 1 : 0,
+      latency,
+      samples: 1,
+      lastOk: ok,
+    });
+    return;
+  }
+  health.set(id, {
+    successRate:
+      prev.successRate * (1 - HEALTH_ALPHA) + (ok ? 1 : 0) * HEALTH_ALPHA,
+    // Failed attempts say nothing useful about round-trip time
+    latency: ok
+      ? prev.latency * (1 - HEALTH_ALPHA) + latency * HEALTH_ALPHA
+      : prev.latency,
+    samples: prev.samples + 1,
+    lastOk: ok,
+  });
+};
+
+export const getBridges = (): BridgeAdapter[] => [...registry];
+
+export const getRankedBridges = (): BridgeAdapter[] =>
+  registry
+    .map((bridge, index) => ({ bridge, index, score: scoreBridge(bridge.id) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ bridge }) => bridge);
@@ -0,0 +1,129 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  buildLogonFields,
+  computeChapResponse,
+  encodePapPassword,
+} from "./uam";
+
+const CHALLENGE = "0123456789abcdeffedcba9876543210";
+const PASSWORD = "mock-pass-2024";
+const UAMSECRET = "s3cret";
+
+const md5 = (...parts: Buffer[]) =>
+  createHash("md5").update(Buffer.concat(parts)).digest();
+
+// Chilli's side of the exchange, written against Node's crypto
+const chapReference = (password: string, uamsecret = "") => {
+  const raw = Buffer.from(CHALLENGE, "hex");
+  const challenge = uamsecret ? md5(raw, Buffer.from(uamsecret)) : raw;
+  return md5(Buffer.from([0]), Buffer.from(password), challenge).toString(
+    "hex",
+  );
+};
+
+// Chilli's redir.c decoder: XOR with the repeating challenge, drop the NULs
+const papDecode = (encoded: string, challenge: Buffer) =>
+  Buffer.from(encoded, "hex")
+    .map((byte, i) => byte ^ challenge[i % challenge.length])
+    .toString()
+    .replace(/\0+$/, "");
+
+describe("computeChapResponse", () => {
+  it("is md5(0x00 + password + challenge)", () => {
+    expect(computeChapResponse(CHALLENGE, PASSWORD)).toBe(
+      "e859ed958e5411e1f2b6eca5123800f3",
+    );
+    expect(computeChapResponse(CHALLENGE, PASSWORD)).toBe(
+      chapReference(PASSWORD),
+    );
+  });
+
+  it("hashes the uamsecret into the challenge first", () => {
+    expect(computeChapResponse(CHALLENGE, PASSWORD, UAMSECRET)).toBe(
+      "44ed8b9d6e31ec53411f961876edfe7b",
+    );
+    expect(computeChapResponse(CHALLENGE, PASSWORD, UAMSECRET)).toBe(
+      chapReference(PASSWORD, UAMSECRET),
+    );
+  });
+
+  it("encodes non-ASCII passwords as UTF-8", () => {
+    expect(computeChapResponse(CHALLENGE, "pässwörd")).toBe(
+      chapReference("pässwörd"),
+    );
+  });
+});
+
+describe("encodePapPassword", () => {
+  it("NUL pads short passwords to 16 bytes", () => {
+    const encoded = encodePapPassword(CHALLENGE, "pass");
+    expect(encoded).toBe("7142361489abcdeffedcba9876543210");
+    expect(papDecode(encoded, Buffer.from(CHALLENGE, "hex"))).toBe("pass");
+  });
+
+  it("adds no padding block to a password of exactly 16 bytes", () => {
+    expect(encodePapPassword(CHALLENGE, "sixteen-bytes-ok")).toBe(
+      "724a3d13eccea3c29ca5cefd05795d7b",
+    );
+  });
+
+  it("pads passwords over 16 bytes to the next 16 byte boundary", () => {
+    const encoded = encodePapPassword(CHALLENGE, "seventeen-bytes!!");
+    expect(encoded).toBe(
+      "72463302e7dfa88a90f1d8e1023141312023456789abcdeffedcba9876543210",
+    );
+    expect(encoded).toHaveLength(64);
+    expect(papDecode(encoded, Buffer.from(CHALLENGE, "hex"))).toBe(
+      "seventeen-bytes!!",
+    );
+  });
+
+  it("XORs with md5(challenge + uamsecret) when a secret is set", () => {
+    const challenge = md5(
+      Buffer.from(CHALLENGE, "hex"),
+      Buffer.from(UAMSECRET),
+    );
+    const encoded = encodePapPassword(CHALLENGE, "pass", UAMSECRET);
+    expect(encoded).toBe("db2ce217c1a5044bb3947df6dc8dc6d0");
+    expect(papDecode(encoded, challenge)).toBe("pass");
+  });
+});
+
+describe("buildLogonFields", () => {
+  it("sends a CHAP response instead of the password", () => {
+    expect(
+      buildLogonFields({
+        username: "+27821234567",
+        password: PASSWORD,
+        challenge: CHALLENGE,
+        uamsecret: "",
+        mode: "chap",
+      }),
+    ).toEqual({
+      username: "+27821234567",
+      response: "e859ed958e5411e1f2b6eca5123800f3",
+    });
+  });
+
+  it("sends the encoded password in PAP mode", () => {
+    expect(
+      buildLogonFields({
+        username: "+27821234567",
+        password: "pass",
+        challenge: CHALLENGE,
+        uamsecret: "",
+        mode: "pap",
+      }),
+    ).toEqual({
+      username: "+27821234567",
+      password: "7142361489abcdeffedcba9876543210",
+    });
+  });
+
+  it("passes the password through when there is no challenge", () => {
+    expect(
+      buildLogonFields({ username: "u", password: "p", challenge: "" }),
+    ).toEqual({ username: "u", password: "p" });
+  });
+});
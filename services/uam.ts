@@ -0,0 +1,95 @@
+import CryptoJS from "crypto-js";
+import { UAM_AUTH_MODE, UAM_SECRET } from "../constants";
+
+export type UamAuthMode = "chap" | "pap";
+
+export interface UamLogonInput {
+  username: string;
+  password: string;
+  challenge: string;
+  uamsecret?: string;
+  mode?: UamAuthMode;
+}
+
+type WordArray = CryptoJS.lib.WordArray;
+
+const toBytes = (words: WordArray): number[] => {
+  const hex = CryptoJS.enc.Hex.stringify(words);
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return bytes;
+};
+
+const toHex = (bytes: number[]): string =>
+  bytes.map((b) => b.toString(16).padStart(2, "0")).join("");
+
+/**
+ * CHALLENGE: Chilli hands us a hex challenge. When a uamsecret is shared
+ * with the router the real challenge is md5(challenge + uamsecret).
+ */
+const resolveChallenge = (challenge: string, uamsecret = ""): WordArray => {
+  const raw = CryptoJS.enc.Hex.parse(challenge);
+  if (!uamsecret) return raw;
+  return CryptoJS.MD5(raw.clone().concat(CryptoJS.enc.Utf8.parse(uamsecret)));
+};
+
+/**
+ * CHAP: response = md5(0x00 + password + challenge), hex encoded.
+ */
+export const computeChapResponse = (
+  challenge: string,
+  password: string,
+  uamsecret?: string,
+): string => {
+  const message = CryptoJS.enc.Hex.parse("00")
+    .concat(CryptoJS.enc.Utf8.parse(password))
+    .concat(resolveChallenge(challenge, uamsecret));
+  return CryptoJS.MD5(message).toString(CryptoJS.enc.Hex);
+};
+
+/**
+ * PAP: the password is NUL padded to a 16 byte boundary and XOR'd with the
+ * (repeating) challenge, matching Chilli's redir.c decoder.
+ */
+export const encodePapPassword = (
+  challenge: string,
+  password: string,
+  uamsecret?: string,
+): string => {
+  const chal = toBytes(resolveChallenge(challenge, uamsecret));
+  const pwd = toBytes(CryptoJS.enc.Utf8.parse(password));
+  const padded = Math.max(16, Math.ceil(pwd.length / 16) * 16);
+  const out: number[] = [];
+  for (let i = 0; i < padded; i++) {
+    out.push((pwd[i] ?? 0) ^ chal[i % chal.length]);
+  }
+  return toHex(out);
+};
+
+/**
+ * LOGON FIELDS: Query parameters for http://{uamip}:{uamport}/logon.
+ * Without a challenge (e.g. portal opened outside the hotspot) there is
+ * nothing to hash against, so the password is passed through unchanged.
+ */
+export const buildLogonFields = ({
+  username,
+  password,
+  challenge,
+  uamsecret = UAM_SECRET,
+  mode = UAM_AUTH_MODE,
+}: UamLogonInput): Record<string, string> => {
+  if (!challenge) return { username, password };
+
+  if (mode === "pap") {
+    return {
+      username,
+      password: encodePapPassword(challenge, password, uamsecret),
+    };
+  }
+  return {
+    username,
+    response: computeChapResponse(challenge, password, uamsecret),
+  };
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { UsageCheck } from "../types";
+import { nextReset, stepForUsage, summarizeUsage } from "./usage";
+
+const GB = 1024 ** 3;
+// A Wednesday, mid-morning
+const NOW = new Date(2024, 4, 15, 10, 30);
+
+const dailyTime = (used: number): UsageCheck => ({
+  attribute: "Max-Daily-Session",
+  value: 10800,
+  result: used,
+  type: "seconds",
+  reset: "daily",
+});
+
+const dailyData = (used: number): UsageCheck => ({
+  attribute: "Max-Total-Octets",
+  value: 3 * GB,
+  result: used,
+  type: "bytes",
+  reset: "daily",
+});
+
+const summarize = (...checks: UsageCheck[]) => summarizeUsage({ checks }, NOW);
+
+describe("summarizeUsage", () => {
+  it("picks the counter with the least left as limiting", () => {
+    const usage = summarize(dailyTime(3600), dailyData(2.5 * GB));
+    expect(usage.limiting?.attribute).toBe("Max-Total-Octets");
+    expect(usage.limiting?.remaining).toBe(0.5 * GB);
+    expect(usage.hasData).toBe(true);
+  });
+
+  it("treats a counter within the floor of its limit as used up", () => {
+    const usage = summarize(dailyTime(10800 - 30), dailyData(GB));
+    expect(usage.limiting?.attribute).toBe("Max-Daily-Session");
+    expect(usage.limiting?.exhausted).toBe(true);
+    expect(usage.hasData).toBe(false);
+  });
+
+  it("never lets a speed limit decide", () => {
+    const usage = summarize(
+      { attribute: "WISPr-Bandwidth-Max-Down", value: 2000000, result: null },
+      dailyData(GB),
+    );
+    expect(usage.quotas.map((q) => q.kind)).toEqual(["speed", "data"]);
+    expect(usage.limiting?.kind).toBe("data");
+  });
+
+  it("falls back to the attribute name without type or reset", () => {
+    const [quota] = summarize({
+      attribute: "Max-Monthly-Octets",
+      value: GB,
+      result: 0,
+    }).quotas;
+    expect(quota.kind).toBe("data");
+    expect(quota.reset).toBe("monthly");
+  });
+
+  it("has no limiting counter without checks", () => {
+    expect(summarize()).toEqual({ quotas: [], limiting: null, hasData: true });
+  });
+});
+
+describe("nextReset", () => {
+  it("is midnight for daily counters", () => {
+    expect(nextReset("daily", NOW)).toBe(new Date(2024, 4, 16).getTime());
+  });
+
+  it("is the coming Monday for weekly counters", () => {
+    expect(nextReset("weekly", NOW)).toBe(new Date(2024, 4, 20).getTime());
+  });
+
+  it("is the first of next month for monthly counters", () => {
+    expect(nextReset("monthly", NOW)).toBe(new Date(2024, 5, 1).getTime());
+  });
+
+  it("is null for counters that never reset", () => {
+    expect(nextReset("never", NOW)).toBeNull();
+  });
+});
+
+describe("stepForUsage", () => {
+  it("goes to SUCCESS for an unknown or unlimited balance", () => {
+    expect(stepForUsage(null)).toBe("SUCCESS");
+    expect(stepForUsage(summarize())).toBe("SUCCESS");
+  });
+
+  it("goes to USAGE_INFO while every counter has some left", () => {
+    expect(stepForUsage(summarize(dailyTime(3600), dailyData(GB)))).toBe(
+      "USAGE_INFO",
+    );
+  });
+
+  it("goes to QUOTA_EXHAUSTED once any counter is used up", () => {
+    expect(stepForUsage(summarize(dailyTime(3600), dailyData(3 * GB)))).toBe(
+      "QUOTA_EXHAUSTED",
+    );
+  });
+});
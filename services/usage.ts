@@ -0,0 +1,120 @@
+import {
+  CounterQuota,
+  Quota,
+  QuotaKind,
+  Step,
+  UsageCheck,
+  UsageReset,
+  UsageResponse,
+  UsageSummary,
+} from "../types";
+import { MIN_DATA_BYTES, MIN_TIME_SECONDS } from "../constants";
+import { Translate } from "../i18n";
+
+const RESETS: UsageReset[] = ["daily", "weekly", "monthly", "never"];
+
+/**
+ * OpenWISP tags most checks with `type`; older releases and custom RADIUS
+ * groups only give us the attribute name to go on.
+ */
+const quotaKind = (check: UsageCheck): QuotaKind => {
+  if (check.type === "bytes") return "data";
+  if (check.type === "seconds") return "time";
+  if (/bandwidth|rate|speed/i.test(check.attribute)) return "speed";
+  if (/octets|traffic|bytes/i.test(check.attribute)) return "data";
+  return "time";
+};
+
+const quotaReset = (check: UsageCheck): UsageReset => {
+  if (check.reset && RESETS.includes(check.reset)) return check.reset;
+  if (/daily/i.test(check.attribute)) return "daily";
+  if (/weekly/i.test(check.attribute)) return "weekly";
+  if (/monthly/i.test(check.attribute)) return "monthly";
+  return "never";
+};
+
+/**
+ * Next counter reset in local time. OpenWISP truncates weeks to Monday.
+ */
+export const nextReset = (
+  reset: UsageReset,
+  now: Date = new Date(),
+): number | null => {
+  const next = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  switch (reset) {
+    case "daily":
+      next.setDate(next.getDate() + 1);
+      break;
+    case "weekly":
+      next.setDate(next.getDate() + ((8 - next.getDay()) % 7 || 7));
+      break;
+    case "monthly":
+      next.setMonth(next.getMonth() + 1, 1);
+      break;
+    default:
+      return null;
+  }
+  return next.getTime();
+};
+
+const toQuota = (check: UsageCheck, now: Date): Quota => {
+  const kind = quotaKind(check);
+  const reset = quotaReset(check);
+  const base = {
+    attribute: check.attribute,
+    reset,
+    resetsAt: nextReset(reset, now),
+  };
+  const limit = Number(check.value) || 0;
+
+  if (kind === "speed") return { ...base, kind, limit };
+
+  const used = Number(check.result) || 0;
+  const remaining = Math.max(0, limit - used);
+  const floor = kind === "data" ? MIN_DATA_BYTES : MIN_TIME_SECONDS;
+  return {
+    ...base,
+    kind,
+    limit,
+    used,
+    remaining,
+    percent: limit > 0 ? Math.min(100, (remaining / limit) * 100) : 0,
+    exhausted: remaining <= floor,
+  };
+};
+
+/**
+ * SUMMARY: Every check as a typed quota. Whichever counter has the least
+ * left (relative to its limit) is the one that ends the session first.
+ */
+export const summarizeUsage = (
+  usage: UsageResponse,
+  now: Date = new Date(),
+): UsageSummary => {
+  const quotas = (usage.checks ?? []).map((check) => toQuota(check, now));
+  const counters = quotas.filter((q): q is CounterQuota => q.kind !== "speed");
+  const limiting =
+    counters.find((q) => q.exhausted) ??
+    [...counters].sort((a, b) => a.percent - b.percent)[0] ??
+    null;
+
+  return { quotas, limiting, hasData: !limiting?.exhausted };
+};
+
+/**
+ * Where a usage check leaves the user: no counters (or no answer) means an
+ * unlimited or unknown balance, anything used up blocks connecting.
+ */
+export const stepForUsage = (
+  usage: UsageSummary | null,
+): Extract<Step, "SUCCESS" | "USAGE_INFO" | "QUOTA_EXHAUSTED"> => {
+  if (!usage?.limiting) return "SUCCESS";
+  return usage.hasData ? "USAGE_INFO" : "QUOTA_EXHAUSTED";
+};
+
+// "Daily Data", "Total Time", ... in the active language
+export const describeQuota = (quota: Quota, t: Translate): string =>
+  t("quota.label", {
+    reset: t(`quota.reset.${quota.reset}`),
+    kind: t(`quota.kind.${quota.kind}`),
+  });
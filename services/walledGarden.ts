@@ -0,0 +1,67 @@
+import { VenueConfig } from "../types";
+import { PORTAL_URL } from "../constants";
+import { BridgeConfig, getBridges } from "./transport";
+
+/**
+ * WALLED GARDEN: The hosts Chilli must let through before login. Built from
+ * the same bridge list, API host and CDN links the portal actually uses, so
+ * the in-app helper, index.html fallback and `npm run walled-garden` agree.
+ */
+
+// Script, stylesheet and font CDNs that index.html loads the shell from
+export const SHELL_CDN_HOSTS = [
+  "esm.sh",
+  "cdn.tailwindcss.com",
+  "fonts.googleapis.com",
+  "fonts.gstatic.com",
+];
+
+export interface WalledGardenSources {
+  apiHost: string;
+  bridges: BridgeConfig[];
+  portalUrl?: string;
+  extra?: string[];
+}
+
+const hostOf = (url?: string): string => {
+  if (!url) return "";
+  try {
+    return new URL(url).hostname;
+  } catch {
+    // Bare host names (venue extras) are already what we want
+    return /^[a-z0-9.-]+$/i.test(url) ? url : "";
+  }
+};
+
+/**
+ * Portal host first, then the API and bridges, then CDNs and venue extras.
+ * Direct bridges add nothing: they reach the API host itself.
+ */
+export const buildWalledGarden = ({
+  apiHost,
+  bridges,
+  portalUrl = PORTAL_URL,
+  extra = [],
+}: WalledGardenSources): string[] => {
+  const hosts = [
+    portalUrl,
+    apiHost,
+    ...bridges.map((b) => b.url),
+    ...SHELL_CDN_HOSTS,
+    ...extra,
+  ]
+    .map(hostOf)
+    .filter(Boolean)
+    .map((host) => host.toLowerCase());
+  return [...new Set(hosts)];
+};
+
+export const walledGardenFor = (
+  venue: VenueConfig,
+  bridges: BridgeConfig[] = getBridges(),
+): string[] =>
+  buildWalledGarden({
+    apiHost: venue.apiHost,
+    bridges,
+    extra: [venue.logoUrl, ...venue.walledGarden],
+  });
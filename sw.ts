@@ -0,0 +1,110 @@
+/// <reference lib="webworker" />
+
+/**
+ * PORTAL SHELL CACHE: Once the portal has loaded once, later visits render
+ * from here even when the walled garden only lets the portal host through.
+ * The build (vite.config.ts) replaces the placeholders below with this
+ * build's version and file list, so every deploy gets a fresh cache.
+ */
+declare const self: ServiceWorkerGlobalScope;
+declare const __BUILD_VERSION__: string;
+declare const __PRECACHE_LOCAL__: string[];
+declare const __PRECACHE_REMOTE__: string[];
+
+const CACHE_PREFIX = "onetel-portal-";
+const CACHE_NAME = `${CACHE_PREFIX}${__BUILD_VERSION__}`;
+
+// Stylesheet, font and script CDNs the shell needs to render
+const CDN_HOSTS = [
+  "cdn.tailwindcss.com",
+  "fonts.googleapis.com",
+  "fonts.gstatic.com",
+  "esm.sh",
+];
+
+// Runtime config: always try the network so venue edits show up
+const NETWORK_FIRST = ["portal-config.json"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.addAll(__PRECACHE_LOCAL__);
+      // CDNs may already be blocked; whatever we miss is cached on use
+      await Promise.all(
+        __PRECACHE_REMOTE__.map((url) =>
+          cache.add(new Request(url, { mode: "no-cors" })).catch(() => {}),
+        ),
+      );
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter(
+            (name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME,
+          )
+          .map((name) => caches.delete(name)),
+      );
+      await self.clients.claim();
+    })(),
+  );
+});
+
+const networkFirst = async (request: Request, fallback?: string) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallback ?? request, response.clone());
+    return response;
+  } catch (err) {
+    // Redirect parameters differ on every visit; the shell does not
+    const cached = await cache.match(fallback ?? request, {
+      ignoreSearch: true,
+    });
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+const cacheFirst = async (request: Request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Opaque (no-cors) CDN replies report status 0 but are still usable
+  if (response.ok || response.type === "opaque") {
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, "./"));
+    return;
+  }
+  if (url.origin === self.location.origin) {
+    const networkFirstPath = NETWORK_FIRST.some((path) =>
+      url.pathname.endsWith(path),
+    );
+    event.respondWith(
+      networkFirstPath ? networkFirst(request) : cacheFirst(request),
+    );
+    return;
+  }
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+  // Everything else (OpenWISP, bridges, Chilli) goes straight to the network
+});
@@ -0,0 +1,138 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import { AddressInfo } from "node:net";
+import { vi } from "vitest";
+import { handleChilli } from "../mock/chilli";
+import { handleOpenWisp } from "../mock/openwisp";
+import { resetState, state } from "../mock/state";
+import { API_HOST, DEFAULT_UAM_IP, DEFAULT_UAM_PORT } from "../constants";
+
+/**
+ * MOCK HOTSPOT FOR TESTS: Runs the mock/ OpenWISP and Chilli handlers on
+ * loopback ports and points the portal at them. fetch calls to API_HOST
+ * reach the OpenWISP mock and Chilli's JSONP script tags the Chilli mock.
+ * Third-party bridges, and anything else, fail like an unreachable host.
+ */
+export interface MockHotspot {
+  state: typeof state;
+  // Every fetch and JSONP call made so far, as the portal addressed it
+  requests: string[];
+  // Makes every host unreachable, as on a network that blocks them all
+  setOffline(offline: boolean): void;
+  close(): Promise<void>;
+}
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+const CHILLI_URL = `http://${DEFAULT_UAM_IP}:${DEFAULT_UAM_PORT}`;
+
+const listen = (handler: Handler) =>
+  new Promise<Server>((resolve) => {
+    const server = createServer((req, res) => {
+      handler(req, res).catch(() => {
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+    server.listen(0, "127.0.0.1", () => resolve(server));
+  });
+
+const originOf = (server: Server) =>
+  `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+// fetch keeps connections alive, which would hold close() open
+const close = (server: Server) =>
+  new Promise<void>((resolve) => {
+    server.close(() => resolve());
+    server.closeAllConnections();
+  });
+
+const aborted = () =>
+  new DOMException("The user aborted a request.", "AbortError");
+
+export const startMockHotspot = async (): Promise<MockHotspot> => {
+  const realFetch = globalThis.fetch;
+  const api = await listen(handleOpenWisp);
+  const chilli = await listen(handleChilli);
+  const requests: string[] = [];
+  let offline = false;
+
+  resetState();
+  state.failures.clear();
+  state.quota = "remaining";
+
+  const fetchStub = (
+    input: RequestInfo | URL,
+    init: RequestInit = {},
+  ): Promise<Response> => {
+    const url = input instanceof Request ? input.url : String(input);
+    requests.push(url);
+    if (offline || !url.startsWith(API_HOST)) {
+      return Promise.reject(new TypeError("Failed to fetch"));
+    }
+    const { signal } = init;
+    if (signal?.aborted) return Promise.reject(aborted());
+    return new Promise((resolve, reject) => {
+      signal?.addEventListener("abort", () => reject(aborted()), {
+        once: true,
+      });
+      realFetch(`${originOf(api)}${url.slice(API_HOST.length)}`, {
+        method: init.method,
+        headers: init.headers,
+        body: init.body,
+      }).then(resolve, reject);
+    });
+  };
+
+  // Chilli only speaks JSONP, so answer the script tags the portal injects
+  const answerJsonp = async (script: HTMLScriptElement) => {
+    const url = new URL(script.src);
+    const callback = url.searchParams.get("callback") || "";
+    requests.push(script.src);
+    try {
+      if (offline) throw new TypeError("Failed to fetch");
+      const reply = await realFetch(
+        `${originOf(chilli)}${url.pathname}${url.search}`,
+      );
+      const body = await reply.text();
+      const json = body.slice(callback.length + 1, body.lastIndexOf(")"));
+      (window as unknown as Record<string, (data: unknown) => void>)[
+        callback
+      ]?.(JSON.parse(json));
+    } catch {
+      script.dispatchEvent(new Event("error"));
+    }
+  };
+
+  const observer = new MutationObserver((mutations) =>
+    mutations.forEach((mutation) =>
+      mutation.addedNodes.forEach((node) => {
+        if (
+          node instanceof HTMLScriptElement &&
+          node.src.startsWith(CHILLI_URL)
+        ) {
+          answerJsonp(node);
+        }
+      }),
+    ),
+  );
+  observer.observe(document.head, { childList: true });
+  vi.stubGlobal("fetch", fetchStub);
+
+  return {
+    state,
+    requests,
+    setOffline: (value) => {
+      offline = value;
+    },
+    close: async () => {
+      observer.disconnect();
+      vi.unstubAllGlobals();
+      await Promise.all([close(api), close(chilli)]);
+    },
+  };
+};
@@ -0,0 +1,8 @@
+import { afterEach } from "vitest";
+import { cleanup } from "@testing-library/react";
+
+// Each test starts signed out, on an empty page
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
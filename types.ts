@@ -1,3 +1,26 @@
+// Screens of the portal flow, rendered by App
+export type Step =
+  | 'REGISTRATION'
+  | 'OTP_VERIFY'
+  | 'EMAIL_VERIFY'
+  | 'LOGIN'
+  | 'USAGE_INFO'
+  | 'SUCCESS'
+  | 'QUOTA_EXHAUSTED'
+  | 'BUY_DATA'
+  | 'ALREADY_CONNECTED'
+  | 'CONNECTED'
+  | 'RESET_REQUEST'
+  | 'RESET_VERIFY'
+  | 'RESET_PASSWORD'
+  | 'PURCHASE_CONFIRM'
+  | 'PAYMENT_PENDING';
+
+// OpenWISP RegisteredUser.method values the portal can complete
+export type VerificationMethod = 'mobile_phone' | 'email';
+
+// Whether the registration form shows an email input, and if it must be filled
+export type EmailField = 'hidden' | 'optional' | 'required';
 
 export interface RegistrationPayload {
   username: string;
@@ -7,16 +30,20 @@ export interface RegistrationPayload {
   first_name: string;
   last_name: string;
   phone_number: string;
-  method: 'mobile_phone';
+  method: VerificationMethod;
   plan_pricing: string;
 }
 
 export interface RegistrationResponse {
   token?: string;
   key?: string;
-  detail?: string;
-  username?: string[];
-  [key: string]: any;
+}
+
+// DRF error body: field name -> messages, plus detail / non_field_errors
+export interface ApiErrorBody {
+  detail?: string | string[];
+  non_field_errors?: string[];
+  [field: string]: string | string[] | Record<string, string[]> | undefined;
 }
 
 export interface LoginPayload {
@@ -24,15 +51,223 @@ export interface LoginPayload {
   password: string;
 }
 
+// token/ reply; radius_user_token doubles as a Chilli password
+export interface TokenResponse {
+  key: string;
+  radius_user_token?: string;
+  is_active?: boolean;
+  is_verified?: boolean;
+  method?: string;
+  username?: string;
+}
+
+export interface StoredSession {
+  token: string;
+  username: string;
+  radiusToken: string;
+  expiresAt: number;
+}
+
+export type UsageCheckType = 'seconds' | 'bytes';
+export type UsageReset = 'daily' | 'weekly' | 'monthly' | 'never';
+
+// One RADIUS check from usage/, e.g. Max-Daily-Session or Max-Total-Octets
+export interface UsageCheck {
+  attribute: string;
+  op?: string;
+  value: number | string;
+  result: number | null;
+  type?: UsageCheckType;
+  reset?: UsageReset;
+}
+
 export interface UsageResponse {
-  checks: Array<{
-    value: number;
-    result: number;
-    [key: string]: any;
-  }>;
+  checks: UsageCheck[];
+}
+
+export type QuotaKind = 'time' | 'data' | 'speed';
+
+interface QuotaBase {
+  attribute: string;
+  reset: UsageReset;
+  // Epoch ms of the next reset, null for 'never'
+  resetsAt: number | null;
+}
+
+// Counters: seconds for time quotas, bytes for data quotas
+export interface CounterQuota extends QuotaBase {
+  kind: 'time' | 'data';
+  limit: number;
+  used: number;
+  remaining: number;
+  percent: number;
+  exhausted: boolean;
+}
+
+// Rate caps: bits per second, nothing to use up
+export interface SpeedQuota extends QuotaBase {
+  kind: 'speed';
+  limit: number;
+}
+
+export type Quota = CounterQuota | SpeedQuota;
+
+export interface UsageSummary {
+  quotas: Quota[];
+  // The counter closest to running out, which decides whether we can connect
+  limiting: CounterQuota | null;
+  hasData: boolean;
+}
+
+// One purchasable price point of a plan, as returned by the plan endpoint
+export interface PlanPricing {
+  id: string;
+  plan: string;
+  pricing: string;
+  plan_description: string;
+  price: string;
+  currency: string;
+  requires_payment: boolean;
+  requires_invoice?: boolean;
+  has_automatic_renewal?: boolean;
+}
+
+export interface Plan {
+  name: string;
+  description: string;
+  pricings: PlanPricing[];
+}
+
+export type PaymentStatus = 'pending' | 'complete' | 'failed' | 'cancelled';
+
+export interface PaymentIntent {
+  id: string;
+  status: PaymentStatus;
+  pricingId: string;
+  // Hosted checkout page to send the user to, if the provider has one
+  paymentUrl?: string;
+  message?: string;
+}
+
+// password/reset/: `input` is the phone number the SMS code goes to
+export interface PasswordResetRequestPayload {
+  input: string;
+}
+
+// Backend extension: trades the SMS reset code for a uid/token pair
+export interface PasswordResetVerifyPayload {
+  phone_number: string;
+  code: string;
+}
+
+export interface PasswordResetGrant {
+  uid: string;
+  token: string;
+}
+
+// Stock OpenWISP RADIUS confirm contract
+export interface PasswordResetConfirmPayload extends PasswordResetGrant {
+  new_password1: string;
+  new_password2: string;
 }
 
 export interface OtpVerifyResponse {
   detail?: string;
   status?: string;
 }
+
+export type ChilliResult = 'notyet' | 'success' | 'failed' | 'logoff' | 'already';
+
+export interface HotspotContext {
+  res: ChilliResult;
+  reply: string;
+  uamip: string;
+  uamport: string;
+  challenge: string;
+  mac: string;
+  ip: string;
+  called: string;
+  nasid: string;
+  userurl: string;
+  sessionid: string;
+  timeleft: number | null;
+}
+
+// Chilli clientState: 0 = not authorised, 1 = authorised, 2 = pending, 3 = splash
+export type ChilliClientState = 0 | 1 | 2 | 3;
+
+export interface ChilliSession {
+  sessionId?: string;
+  userName?: string;
+  startTime?: number;
+  sessionTimeout?: number;
+  idleTimeout?: number;
+  maxInputOctets?: number;
+  maxOutputOctets?: number;
+  maxTotalOctets?: number;
+}
+
+export interface ChilliAccounting {
+  sessionTime: number;
+  idleTime: number;
+  inputOctets: number;
+  outputOctets: number;
+  inputGigawords?: number;
+  outputGigawords?: number;
+}
+
+export interface ChilliStatusResponse {
+  version?: string;
+  clientState: ChilliClientState;
+  challenge?: string;
+  message?: string;
+  session?: ChilliSession;
+  accounting?: ChilliAccounting;
+}
+
+export interface ThemeTokens {
+  primary: string; // buttons, links, accents
+  primaryDark: string; // emphasis and hover
+  primaryLight: string; // subtle icons
+  tint: string; // borders, text on primary
+  surface: string; // card headers
+  background: string; // page background
+}
+
+export interface VenueText {
+  brandName: string;
+  tagline: string;
+  registerHeadline: string;
+}
+
+export interface VenueConfig {
+  // 'default' or the nasid / called key that matched
+  id: string;
+  organization: string;
+  apiHost: string;
+  logoUrl: string;
+  theme: ThemeTokens;
+  defaultPlan: string;
+  // Plan pricing ids offered at this venue; empty offers the whole catalogue
+  plans: string[];
+  // Hosts this venue needs on top of the generated list (services/walledGarden.ts)
+  walledGarden: string[];
+  // ISO country codes accepted for phone numbers; the first is assumed for
+  // numbers typed without a country code
+  phoneCountries: string[];
+  // SMS code or emailed confirmation link; 'email' always asks for an email
+  verificationMethod: VerificationMethod;
+  emailField: EmailField;
+  text: VenueText;
+}
+
+export type VenueOverride = Partial<Omit<VenueConfig, 'id' | 'theme' | 'text'>> & {
+  theme?: Partial<ThemeTokens>;
+  text?: Partial<VenueText>;
+};
+
+// Shape of portal-config.json
+export interface PortalConfigFile {
+  default?: VenueOverride;
+  venues?: Record<string, VenueOverride>;
+}
@@ -0,0 +1,92 @@
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+// Formatters take the active language's BCP 47 tag; South African English
+// by default, matching the Rand pricing.
+const DEFAULT_LOCALE = "en-ZA";
+
+export const formatBytes = (
+  bytes: number,
+  locale: string = DEFAULT_LOCALE,
+): string => {
+  let value = Math.max(0, bytes);
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  const digits = unit === 0 ? 0 : 2;
+  const number = new Intl.NumberFormat(locale, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value);
+  return `${number} ${BYTE_UNITS[unit]}`;
+};
+
+/**
+ * Seconds as h:mm:ss (or m:ss under an hour).
+ */
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+export const formatPrice = (
+  price: string | number,
+  currency: string,
+  locale: string = DEFAULT_LOCALE,
+) => {
+  const amount = Number(price);
+  if (!Number.isFinite(amount)) return `${currency} ${price}`;
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+    }).format(amount);
+  } catch {
+    // Unknown ISO code
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
+
+const formatUnit = (value: number, unit: string, locale: string): string =>
+  new Intl.NumberFormat(locale, {
+    style: "unit",
+    unit,
+    unitDisplay: "narrow",
+  }).format(value);
+
+/**
+ * Coarse span for countdowns and quotas: "3d 4h", "2h 15m", "45m", "30s"
+ * in English, with the unit names of the given locale.
+ */
+export const formatTimeSpan = (
+  seconds: number,
+  locale: string = DEFAULT_LOCALE,
+): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const d = Math.floor(total / 86400);
+  const h = Math.floor((total % 86400) / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const unit = (value: number, name: string) => formatUnit(value, name, locale);
+  if (d > 0) return `${unit(d, "day")} ${unit(h, "hour")}`;
+  if (h > 0) return `${unit(h, "hour")} ${unit(m, "minute")}`;
+  if (m > 0) return unit(m, "minute");
+  return unit(total, "second");
+};
+
+export const formatBitrate = (
+  bitsPerSecond: number,
+  locale: string = DEFAULT_LOCALE,
+): string => {
+  if (bitsPerSecond >= 1e6) {
+    const mbps = new Intl.NumberFormat(locale, {
+      minimumFractionDigits: 1,
+      maximumFractionDigits: 1,
+    }).format(bitsPerSecond / 1e6);
+    return `${mbps} Mbps`;
+  }
+  return `${Math.round(bitsPerSecond / 1e3)} kbps`;
+};
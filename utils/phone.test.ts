@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { loginUsername, normalizePhone } from "./phone";
+
+const e164 = (raw: string, countries?: string[]) =>
+  normalizePhone(raw, countries).e164;
+const error = (raw: string, countries?: string[]) =>
+  normalizePhone(raw, countries).error;
+
+describe("normalizePhone", () => {
+  it.each([
+    "0821234567",
+    "082 123 4567",
+    "082-123-4567",
+    "(082) 123.4567",
+    "+27821234567",
+    "+27 82 123 4567",
+    "0027821234567",
+    "0027 82 123 4567",
+    "27821234567",
+    "+27 082 123 4567",
+    "0027 082 123 4567",
+    "  082 123 4567  ",
+  ])("reads %j as +27821234567", (raw) => {
+    expect(e164(raw)).toBe("+27821234567");
+  });
+
+  it("accepts every South African mobile range", () => {
+    expect(e164("060 123 4567")).toBe("+27601234567");
+    expect(e164("071 123 4567")).toBe("+27711234567");
+    expect(e164("084 123 4567")).toBe("+27841234567");
+  });
+
+  it("refuses landlines", () => {
+    expect(error("021 123 4567")).toBe("not_mobile");
+    expect(error("+27 11 123 4567")).toBe("not_mobile");
+  });
+
+  it("refuses empty and malformed input", () => {
+    expect(error("")).toBe("empty");
+    expect(error("   ")).toBe("empty");
+    expect(error("082 123 456x")).toBe("invalid");
+    expect(error("+1 555 123 4567")).toBe("invalid");
+    expect(error("08212")).toBe("invalid");
+  });
+
+  it("refuses numbers from countries the venue does not list", () => {
+    expect(error("+264 81 123 4567")).toBe("country");
+    expect(error("+27821234567", ["NA"])).toBe("country");
+  });
+
+  it("refuses a venue without any known country", () => {
+    expect(error("0821234567", ["XX"])).toBe("country");
+  });
+
+  describe("with several countries", () => {
+    it("reads national numbers in the first listed country", () => {
+      expect(e164("081 123 4567", ["NA", "ZA"])).toBe("+264811234567");
+      expect(e164("081 123 4567", ["ZA", "NA"])).toBe("+27811234567");
+    });
+
+    it("takes international numbers from any listed country", () => {
+      expect(e164("+264 81 123 4567", ["ZA", "NA"])).toBe("+264811234567");
+      expect(e164("+27 82 123 4567", ["NA", "ZA"])).toBe("+27821234567");
+    });
+
+    it("recognises a dial code typed without the plus", () => {
+      expect(e164("264811234567", ["ZA", "NA"])).toBe("+264811234567");
+    });
+
+    it("handles countries without a trunk prefix", () => {
+      expect(e164("71 234 567", ["BW"])).toBe("+26771234567");
+      expect(e164("+267 71 234 567", ["ZA", "BW"])).toBe("+26771234567");
+    });
+  });
+});
+
+describe("loginUsername", () => {
+  it("signs a phone number in under its E.164 form", () => {
+    expect(loginUsername("082 123 4567")).toBe("+27821234567");
+  });
+
+  it("passes other usernames through unchanged", () => {
+    expect(loginUsername("thandi.nkosi ")).toBe("thandi.nkosi");
+    expect(loginUsername("27821234")).toBe("27821234");
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * PHONE NUMBERS: OpenWISP uses the phone number as the username, so every
+ * spelling of a number ("082 123 4567", "0821234567", "+27821234567") has to
+ * become the same E.164 string before it reaches register or login.
+ */
+export interface PhoneCountry {
+  dialCode: string;
+  // National prefix dialled inside the country ("0" in South Africa)
+  trunkPrefix: string;
+  // National significant number of a mobile line, without trunk prefix
+  mobile: RegExp;
+}
+
+// ISO 3166 alpha-2 keys, referenced from the venue's `phoneCountries`
+export const PHONE_COUNTRIES: Record<string, PhoneCountry> = {
+  ZA: {
+    dialCode: "27",
+    trunkPrefix: "0",
+    mobile: /^(6\d|7[1-9]|8[1-4])\d{7}$/,
+  },
+  NA: { dialCode: "264", trunkPrefix: "0", mobile: /^8[1-5]\d{7}$/ },
+  BW: { dialCode: "267", trunkPrefix: "", mobile: /^7\d{7}$/ },
+  LS: { dialCode: "266", trunkPrefix: "", mobile: /^[56]\d{7}$/ },
+  SZ: { dialCode: "268", trunkPrefix: "", mobile: /^7[6-9]\d{6}$/ },
+  ZW: { dialCode: "263", trunkPrefix: "0", mobile: /^7[1378]\d{7}$/ },
+};
+
+export type PhoneError = "empty" | "invalid" | "country" | "not_mobile";
+
+// Exactly one of the two is set
+export interface PhoneResult {
+  e164: string | null;
+  error: PhoneError | null;
+}
+
+const fail = (error: PhoneError): PhoneResult => ({ e164: null, error });
+
+const SEPARATORS = /[\s().\-\/]/g;
+
+/**
+ * Accepts international ("+27…", "0027…", "27…") and national ("082…")
+ * forms. National numbers are read in the first listed country; numbers
+ * from countries not listed are refused.
+ */
+export const normalizePhone = (
+  raw: string,
+  countries: string[] = ["ZA"],
+): PhoneResult => {
+  const input = raw.trim().replace(SEPARATORS, "");
+  if (!input) return fail("empty");
+  if (!/^(\+|00)?\d+$/.test(input)) return fail("invalid");
+
+  const allowed = countries
+    .map((code) => PHONE_COUNTRIES[code.toUpperCase()])
+    .filter(Boolean);
+  const [home] = allowed;
+  if (!home) return fail("country");
+
+  const international = /^(\+|00)/.test(input);
+  const digits = input.replace(/^(\+|00)/, "");
+
+  let country: PhoneCountry | undefined;
+  let national = digits;
+  if (international) {
+    country = allowed.find((c) => digits.startsWith(c.dialCode));
+    if (!country) {
+      const known = Object.values(PHONE_COUNTRIES).some((c) =>
+        digits.startsWith(c.dialCode),
+      );
+      return fail(known ? "country" : "invalid");
+    }
+    national = digits.slice(country.dialCode.length);
+  } else if (home.trunkPrefix && digits.startsWith(home.trunkPrefix)) {
+    country = home;
+    national = digits.slice(home.trunkPrefix.length);
+  } else {
+    // "27821234567": international form typed without the plus
+    country = allowed.find(
+      (c) =>
+        digits.startsWith(c.dialCode) &&
+        c.mobile.test(digits.slice(c.dialCode.length)),
+    );
+    if (country) national = digits.slice(country.dialCode.length);
+    else country = home;
+  }
+
+  // Some people keep the trunk zero after the country code: +27 082…
+  if (country.trunkPrefix && national.startsWith(country.trunkPrefix)) {
+    const stripped = national.slice(country.trunkPrefix.length);
+    if (country.mobile.test(stripped)) national = stripped;
+  }
+
+  if (!/^\d{6,12}$/.test(national)) return fail("invalid");
+  if (!country.mobile.test(national)) return fail("not_mobile");
+  return { e164: `+${country.dialCode}${national}`, error: null };
+};
+
+/**
+ * Sign-in accepts any username: a phone number is normalised like at
+ * registration, while older accounts not named by a number pass through.
+ */
+export const loginUsername = (raw: string, countries?: string[]): string =>
+  normalizePhone(raw, countries).e164 ?? raw.trim();
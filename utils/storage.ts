@@ -0,0 +1,62 @@
+/**
+ * SAFE STORAGE: Captive network assistant webviews often throw on any
+ * localStorage access (or on setItem when quota is zero). In that case we
+ * fall back to an in-memory map that lasts for the page lifetime.
+ */
+const memory = new Map<string, string>();
+
+const resolveStorage = (): Storage | null => {
+  try {
+    const storage = window.localStorage;
+    const probe = "__onetel_probe__";
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+    return storage;
+  } catch {
+    return null;
+  }
+};
+
+const backing = resolveStorage();
+
+export const isPersistentStorage = backing !== null;
+
+export const getItem = (key: string): string | null => {
+  try {
+    return backing ? backing.getItem(key) : (memory.get(key) ?? null);
+  } catch {
+    return memory.get(key) ?? null;
+  }
+};
+
+export const setItem = (key: string, value: string) => {
+  memory.set(key, value);
+  try {
+    backing?.setItem(key, value);
+  } catch {
+    // Quota exceeded or storage revoked mid-session; memory copy still works
+  }
+};
+
+export const removeItem = (key: string) => {
+  memory.delete(key);
+  try {
+    backing?.removeItem(key);
+  } catch {
+    // Nothing else to clean up
+  }
+};
+
+export const getJson = <T>(key: string): T | null => {
+  const raw = getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    removeItem(key);
+    return null;
+  }
+};
+
+export const setJson = (key: string, value: unknown) =>
+  setItem(key, JSON.stringify(value));
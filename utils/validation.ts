@@ -0,0 +1,170 @@
+import { EmailField, RegistrationPayload } from "../types";
+import { PASSWORD_MIN_LENGTH } from "../constants";
+import { MessageKey } from "../i18n";
+import { normalizePhone } from "./phone";
+
+export interface FieldIssue {
+  key: MessageKey;
+  vars?: Record<string, string | number>;
+}
+
+export type FormIssues = Partial<Record<keyof RegistrationPayload, FieldIssue>>;
+
+// Head of Django's common-passwords list; the server checks the full one
+const COMMON_PASSWORDS = new Set([
+  "password",
+  "password1",
+  "12345678",
+  "123456789",
+  "1234567890",
+  "qwerty123",
+  "qwertyuiop",
+  "iloveyou",
+  "11111111",
+  "00000000",
+  "abcd1234",
+  "password123",
+  "sunshine",
+  "princess",
+  "football",
+  "letmein1",
+  "welcome1",
+  "passw0rd",
+  "baseball",
+  "superman",
+]);
+
+const MAX_SIMILARITY = 0.7;
+
+// Deliberately loose; the confirmation email is the real check
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// difflib.SequenceMatcher.quick_ratio: shared characters, ignoring order
+const quickRatio = (a: string, b: string): number => {
+  const available = new Map<string, number>();
+  for (const ch of b) available.set(ch, (available.get(ch) ?? 0) + 1);
+  let matches = 0;
+  for (const ch of a) {
+    const left = available.get(ch) ?? 0;
+    if (left > 0) {
+      matches++;
+      available.set(ch, left - 1);
+    }
+  }
+  return a.length + b.length ? (2 * matches) / (a.length + b.length) : 1;
+};
+
+/**
+ * Mirrors Django's UserAttributeSimilarityValidator: the password is
+ * compared against each attribute and each of its words. Attributes far
+ * shorter than the password are skipped, as Django does.
+ */
+const isSimilar = (password: string, attributes: string[]): boolean => {
+  const pwd = password.toLowerCase();
+  return attributes.some((attribute) => {
+    const value = attribute.toLowerCase();
+    if (!value) return false;
+    return [value, ...value.split(/\W+/)].some((part) => {
+      if (!part) return false;
+      const tooShort =
+        pwd.length >= 10 * part.length &&
+        part.length < (MAX_SIMILARITY / 2) * pwd.length;
+      return !tooShort && quickRatio(pwd, part) >= MAX_SIMILARITY;
+    });
+  });
+};
+
+/**
+ * PASSWORD: The first rule the password breaks, in the order OpenWISP's
+ * AUTH_PASSWORD_VALIDATORS run.
+ */
+export const passwordIssue = (
+  password: string,
+  attributes: string[],
+): FieldIssue | null => {
+  if (isSimilar(password, attributes)) {
+    return { key: "validation.passwordSimilar" };
+  }
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return {
+      key: "validation.passwordLength",
+      vars: { min: PASSWORD_MIN_LENGTH },
+    };
+  }
+  if (COMMON_PASSWORDS.has(password.toLowerCase().trim())) {
+    return { key: "validation.passwordCommon" };
+  }
+  if (/^\d+$/.test(password)) return { key: "validation.passwordNumeric" };
+  return null;
+};
+
+/**
+ * STRENGTH: 0 (empty) to 4. Anything the validators reject caps at 1, so
+ * the meter never calls a password good that the server would refuse.
+ */
+export const passwordStrength = (
+  password: string,
+  attributes: string[],
+): number => {
+  if (!password) return 0;
+  if (passwordIssue(password, attributes)) return 1;
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((re) =>
+    re.test(password),
+  ).length;
+  if (password.length >= 12 && classes >= 3) return 4;
+  if (password.length >= 10 || classes >= 3) return 3;
+  return 2;
+};
+
+// What the similarity check compares against, as OpenWISP sees the user
+export const passwordAttributes = (
+  form: RegistrationPayload,
+  phoneCountries: string[],
+): string[] => [
+  form.username,
+  normalizePhone(form.username, phoneCountries).e164 ?? "",
+  form.first_name,
+  form.last_name,
+  form.email,
+];
+
+/**
+ * REGISTRATION: Everything OpenWISP would bounce that we can tell locally,
+ * keyed by payload field so issues land on the matching Input.
+ */
+export const validateRegistration = (
+  form: RegistrationPayload,
+  phoneCountries: string[],
+  emailField: EmailField,
+): FormIssues => {
+  const issues: FormIssues = {};
+
+  if (!form.first_name.trim()) {
+    issues.first_name = { key: "validation.required" };
+  }
+  if (!form.last_name.trim()) {
+    issues.last_name = { key: "validation.required" };
+  }
+
+  const phone = normalizePhone(form.username, phoneCountries);
+  if (phone.error) issues.username = { key: `phone.${phone.error}` };
+
+  const email = form.email.trim();
+  if (emailField === "required" && !email) {
+    issues.email = { key: "validation.required" };
+  } else if (emailField !== "hidden" && email && !EMAIL_PATTERN.test(email)) {
+    issues.email = { key: "validation.email" };
+  }
+
+  const password = passwordIssue(
+    form.password1,
+    passwordAttributes(form, phoneCountries),
+  );
+  if (!form.password1) issues.password1 = { key: "validation.required" };
+  else if (password) issues.password1 = password;
+
+  if (form.password2 !== form.password1) {
+    issues.password2 = { key: "session.passwordMismatch" };
+  }
+  return issues;
+};
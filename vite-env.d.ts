@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Public URL of relay/server.ts, e.g. https://relay.example.com/?url=
+  readonly VITE_RELAY_URL?: string;
+  // JSON array of extra BridgeConfig entries, e.g. a self-hosted CORS relay
+  readonly VITE_EXTRA_BRIDGES?: string;
+}
@@ -1,13 +1,79 @@
-
-import { defineConfig } from 'vite';
+/// <reference types="vitest/config" />
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { resolveVenue } from './services/config';
+import { configuredBridges } from './services/transport';
+import { walledGardenFor } from './services/walledGarden';
+
+const SW_FILE = 'sw.js';
+
+// Bundles sw.ts alongside the app and stamps it with this build's files.
+// The version is a hash of the output, so any change invalidates the cache.
+const serviceWorker = (): Plugin => ({
+  name: 'portal-service-worker',
+  // Skipped for `npm run walled-garden`, which is an SSR build of a CLI
+  apply: (_config, { command, isSsrBuild }) => command === 'build' && !isSsrBuild,
+  enforce: 'post',
+  buildStart() {
+    this.emitFile({ type: 'chunk', id: 'sw.ts', fileName: SW_FILE });
+  },
+  generateBundle(_options, bundle) {
+    const sw = bundle[SW_FILE];
+    if (!sw || sw.type !== 'chunk') return;
+
+    const hash = createHash('sha256');
+    const local = ['./'];
+    Object.values(bundle)
+      .filter((file) => file.fileName !== SW_FILE && !file.fileName.endsWith('.map'))
+      .sort((a, b) => a.fileName.localeCompare(b.fileName))
+      .forEach((file) => {
+        local.push(`./${file.fileName}`);
+        hash.update(file.fileName);
+        hash.update(file.type === 'chunk' ? file.code : file.source);
+      });
+
+    // Absolute CDN links in index.html (Tailwind, fonts) are precached too
+    const html = bundle['index.html'];
+    const htmlSource = html?.type === 'asset' ? String(html.source) : '';
+    const remote = [...htmlSource.matchAll(/(?:src|href)="(https:\/\/[^"]+)"/g)].map((m) => m[1]);
+
+    sw.code = sw.code
+      .replace(/__BUILD_VERSION__/g, JSON.stringify(hash.digest('hex').slice(0, 12)))
+      .replace(/__PRECACHE_LOCAL__/g, JSON.stringify(local))
+      .replace(/__PRECACHE_REMOTE__/g, JSON.stringify(remote));
+  },
+});
+
+// Fills the index.html fallback with the default venue's walled garden,
+// using this build's env so a relay or extra bridge shows up there too.
+const walledGardenFallback = (): Plugin => {
+  let env: Record<string, string> = {};
+  return {
+    name: 'portal-walled-garden',
+    configResolved(config) {
+      env = config.env;
+    },
+    transformIndexHtml(html) {
+      const file = JSON.parse(readFileSync('public/portal-config.json', 'utf8'));
+      const venue = resolveVenue(file, { nasid: '', called: '' });
+      const hosts = walledGardenFor(venue, configuredBridges(env));
+      return html.replace('%WALLED_GARDEN%', hosts.join(','));
+    },
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker(), walledGardenFallback()],
   // This ensures paths are relative so it works on GitHub Pages subpaths
   base: './',
   build: {
     outDir: 'dist',
-  }
+  },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./test/setup.ts'],
+  },
 });